@@ -1,8 +1,27 @@
 import dts from "bun-plugin-dts";
 
 await Bun.build({
-  entrypoints: ["./src/index.ts"],
+  entrypoints: [
+    "./src/index.ts",
+    "./src/testing.ts",
+    "./src/migrate.ts",
+    "./src/introspect.ts",
+    "./src/adapter.ts",
+    "./src/kysely.ts",
+    "./src/drizzle.ts",
+  ],
   outdir: "./dist",
   minify: true,
+  // node:* is only loaded by the tcp transport and md5 auth, the query
+  // builders are peer dependencies of their entry points
+  external: ["node:*", "kysely", "drizzle-orm", "drizzle-orm/*"],
   plugins: [dts()],
 });
+
+await Bun.build({
+  entrypoints: ["./src/cli.ts"],
+  outdir: "./dist",
+  target: "node",
+  minify: true,
+  banner: "#!/usr/bin/env node",
+});
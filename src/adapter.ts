@@ -0,0 +1,95 @@
+import type { ResultSet, SQL, TransactionSQL } from "./index";
+
+// A `pg` shaped front for libraries written against node-postgres. Queries
+// go through `sql.unsafe`, so values are serialized by type and
+// batching, replicas, caching and hooks apply to them as to any other query.
+
+export interface QueryConfig {
+  text: string; // with $1, $2... placeholders
+  values?: unknown[];
+  rowMode?: "array"; // rows as arrays of values instead of objects
+}
+
+export interface FieldDef {
+  name: string;
+  tableID: number;
+  columnID: number;
+  dataTypeID: number;
+  dataTypeSize: number;
+  dataTypeModifier: number;
+  format: "text";
+}
+
+export interface QueryResult<R = any> {
+  command: string;
+  rowCount: number;
+  rows: R[];
+  fields: FieldDef[];
+}
+
+export interface Adapter {
+  query<R = any>(
+    text: string | QueryConfig,
+    values?: unknown[],
+  ): Promise<QueryResult<R>>;
+  batch(queries: (string | QueryConfig)[]): Promise<QueryResult[]>; // a single transaction
+  end(): Promise<void>; // there is no connection to close
+}
+
+export function pgAdapter(sql: SQL | TransactionSQL): Adapter {
+  return {
+    async query(text, values) {
+      const config = typeof text === "string" ? { text, values } : text;
+      return toResult(await prepare(sql, config), config);
+    },
+    async batch(queries) {
+      const configs = queries.map((x) =>
+        typeof x === "string" ? { text: x } : x,
+      );
+      const results =
+        "begin" in sql
+          ? await sql.begin(configs.map((x) => prepare(sql, x)))
+          : await sequence(configs.map((x) => () => prepare(sql, x)));
+      return results.map((x, i) => toResult(x, configs[i]));
+    },
+    async end() {},
+  };
+}
+
+function prepare(sql: SQL | TransactionSQL, config: QueryConfig) {
+  // node-postgres sends undefined as null
+  const values = (config.values || []).map((x) => x ?? null);
+  return sql.unsafe(config.text, values).values() as unknown as Promise<
+    ResultSet<unknown[]>
+  >;
+}
+
+function toResult(set: ResultSet<unknown[]>, config: QueryConfig): QueryResult {
+  return {
+    command: set.command,
+    rowCount: set.count,
+    rows:
+      config.rowMode === "array"
+        ? set.slice()
+        : set.map((row) => {
+            const object = {};
+            set.columns.forEach((x, i) => (object[x.name] = row[i]));
+            return object;
+          }),
+    fields: set.columns.map((x) => ({
+      name: x.name,
+      tableID: x.table,
+      columnID: x.column,
+      dataTypeID: x.type,
+      dataTypeSize: x.size,
+      dataTypeModifier: x.modifier,
+      format: "text" as const,
+    })),
+  };
+}
+
+async function sequence<T>(fns: (() => Promise<T>)[]) {
+  const results: T[] = [];
+  for (const fn of fns) results.push(await fn());
+  return results;
+}
@@ -0,0 +1,61 @@
+import { PostgresError } from "./errors";
+
+export interface BatchOptions {
+  maxSize?: number; // queries per request
+  windowMs?: number; // wait for more queries, 0 only collects the current tick
+}
+
+export function parseBatch(x: BatchOptions | boolean | undefined) {
+  if (!x) return undefined;
+  const o = typeof x === "object" ? x : {};
+  return { maxSize: o.maxSize ?? 50, windowMs: o.windowMs ?? 0 };
+}
+
+interface Pending<P, T> {
+  item: P;
+  resolve: (value: T) => void;
+  reject: (reason: unknown) => void;
+}
+
+// Coalesces the items queued within a window into a single call of `many`.
+// A batch runs all or nothing, so when a query of it fails every item is
+// sent again on its own and only gets its own result or error. Other errors
+// may come after the batch ran, each item gets the error `failed` makes of it.
+export function batcher<P, T>(
+  o: Required<BatchOptions>,
+  many: (items: P[]) => Promise<T[]>,
+  one: (item: P) => Promise<T>,
+  failed: (error: unknown, item: P) => unknown = (error) => error,
+) {
+  let queue: Pending<P, T>[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  function flush() {
+    clearTimeout(timer);
+    timer = undefined;
+    const pending = queue;
+    queue = [];
+    if (!pending.length) return;
+    if (pending.length === 1) {
+      one(pending[0].item).then(pending[0].resolve, pending[0].reject);
+      return;
+    }
+    many(pending.map((x) => x.item)).then(
+      (results) => pending.forEach((x, i) => x.resolve(results[i])),
+      (error) =>
+        pending.forEach((x) =>
+          error instanceof PostgresError
+            ? one(x.item).then(x.resolve, x.reject)
+            : x.reject(failed(error, x.item)),
+        ),
+    );
+  }
+  return (item: P) =>
+    new Promise<T>((resolve, reject) => {
+      queue.push({ item, resolve, reject });
+      if (queue.length >= o.maxSize) flush();
+      else if (queue.length === 1)
+        o.windowMs > 0
+          ? (timer = setTimeout(flush, o.windowMs))
+          : queueMicrotask(flush);
+    });
+}
@@ -0,0 +1,71 @@
+import type { Result } from "./index";
+import { stripComments } from "./statement";
+
+export interface CacheEntry {
+  value: Result;
+  expires: number; // epoch ms
+  tags: string[];
+}
+
+// Where cached results live, the in-memory LRU by default. Entries are plain
+// JSON so any key-value store can hold them.
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  invalidate(tags: string[]): void | Promise<void>; // drop entries with any of the tags
+}
+
+export interface CacheOptions {
+  store?: CacheStore;
+  ttl?: number; // ms, used by `.cache()` without a ttl
+  maxSize?: number; // entries kept by the in-memory store
+  invalidateWrites?: boolean; // writes invalidate the tag named after their table
+}
+
+export function parseCache(x: CacheOptions = {}) {
+  return {
+    store: x.store || memoryStore(x.maxSize ?? 1000),
+    ttl: x.ttl ?? 60000,
+    invalidateWrites: x.invalidateWrites ?? true,
+  };
+}
+
+export function memoryStore(maxSize = 1000): CacheStore {
+  const entries = new Map<string, CacheEntry>();
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      // refresh the position of the entry, the first one is evicted first
+      entries.delete(key);
+      if (entry.expires > Date.now()) entries.set(key, entry);
+      return entry;
+    },
+    set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      if (entries.size > maxSize) entries.delete(entries.keys().next().value!);
+    },
+    invalidate(tags) {
+      for (const [key, entry] of entries) {
+        if (entry.tags.some((x) => tags.includes(x))) entries.delete(key);
+      }
+    },
+  };
+}
+
+const identifier = `(?:"(?:[^"]|"")+"|[\\w$]+)`;
+const write = new RegExp(
+  `^(?:insert\\s+into|update|delete\\s+from|merge\\s+into|truncate(?:\\s+table)?)\\s+(?:only\\s+)?(?:${identifier}\\.)?(${identifier})`,
+  "i",
+);
+
+// The table a statement writes to, without its schema
+export function writtenTable(query: string) {
+  const match = stripComments(query).match(write);
+  if (!match) return undefined;
+  const table = match[1];
+  return table[0] === '"'
+    ? table.slice(1, -1).replace(/""/g, '"')
+    : table.toLowerCase();
+}
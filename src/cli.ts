@@ -0,0 +1,77 @@
+import { neon } from "./index";
+import { createMigration, migrate, rollback, status } from "./migrate";
+
+const usage = `Usage: neon-migrate <command> [options]
+
+Commands:
+  up                 apply pending migrations
+  down               revert the last migration (see --steps)
+  status             list migrations and whether they are applied
+  create <name>      add empty up and down files
+
+Options:
+  --url <url>        connection string, defaults to $DATABASE_URL
+  --dir <dir>        migrations directory, defaults to ./migrations
+  --table <table>    table of applied versions, defaults to schema_migrations
+  --steps <n>        migrations reverted by down, defaults to 1
+  --dry-run          print the statements instead of running them`;
+
+async function main(argv: string[]) {
+  const flags: Record<string, string | boolean> = {};
+  const args: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const match = argv[i].match(/^--([\w-]+)(?:=(.*))?$/);
+    if (!match) args.push(argv[i]);
+    else if (match[2] !== undefined) flags[match[1]] = match[2];
+    else if (match[1] === "dry-run" || match[1] === "help")
+      flags[match[1]] = true;
+    else flags[match[1]] = argv[++i];
+  }
+  const [command, name] = args;
+  const dir = (flags.dir as string) || "migrations";
+  if (!command || flags.help) return console.log(usage);
+  if (command === "create") {
+    if (!name) throw new Error("Missing the name of the migration");
+    for (const file of await createMigration(dir, name)) console.log(file);
+    return;
+  }
+
+  const url = (flags.url as string) || process.env.DATABASE_URL;
+  if (!url) throw new Error("Missing --url or DATABASE_URL");
+  const sql = neon(url);
+  const o = {
+    dir,
+    table: flags.table as string | undefined,
+    dryRun: !!flags["dry-run"],
+    steps: flags.steps ? +flags.steps : undefined,
+  };
+  switch (command) {
+    case "up":
+    case "down": {
+      const runs = await (command === "up" ? migrate : rollback)(sql, o);
+      if (!runs.length) console.log("Nothing to do");
+      for (const run of runs) {
+        console.log(`${command} ${run.version}_${run.name}`);
+        if (o.dryRun) {
+          for (const x of run.statements) console.log(`  ${x.query};`);
+        }
+      }
+      return;
+    }
+    case "status":
+      for (const x of await status(sql, o)) {
+        console.log(
+          `${x.applied ? "applied" : "pending"} ${x.version}_${x.name}` +
+            (x.changed ? " (changed since applied)" : ""),
+        );
+      }
+      return;
+    default:
+      throw new Error(`Unknown command ${command}\n\n${usage}`);
+  }
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
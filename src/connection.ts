@@ -0,0 +1,498 @@
+import { NetworkError, PostgresError, type Statement } from "./errors";
+import type { Payload, Result } from "./index";
+
+// A duplex byte stream, either a websocket or a tcp socket
+export interface Socket {
+  write(data: Uint8Array): void;
+  close(): void;
+  ondata?: (data: Uint8Array) => void;
+  onclose?: () => void;
+  onerror?: (error: unknown) => void;
+}
+
+export type SocketFactory = (host: string, port: number) => Promise<Socket>;
+
+export interface ConnectionOptions {
+  host: string;
+  port: number;
+  user: string;
+  password: string;
+  database: string;
+  params?: Record<string, string>; // extra startup parameters (application_name, options, ...)
+}
+
+interface Message {
+  type: string;
+  body: Uint8Array;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function webSocket(
+  url: string,
+  WebSocketConstructor: typeof WebSocket = globalThis.WebSocket,
+): Promise<Socket> {
+  if (!WebSocketConstructor) {
+    throw new Error(
+      "No WebSocket implementation found, pass one as `webSocketConstructor`",
+    );
+  }
+  return new Promise((resolve, reject) => {
+    const ws = new WebSocketConstructor(url);
+    const socket: Socket = {
+      write: (data) => ws.send(data),
+      close: () => ws.close(),
+    };
+    ws.binaryType = "arraybuffer";
+    ws.onopen = () => resolve(socket);
+    ws.onerror = (event) => {
+      reject(new NetworkError(event));
+      socket.onerror?.(event);
+    };
+    ws.onclose = () => socket.onclose?.();
+    ws.onmessage = (event) => socket.ondata?.(new Uint8Array(event.data));
+  });
+}
+
+// Raw tcp for runtimes with node:net, upgraded to tls unless sslmode=disable
+export async function tcpSocket(
+  host: string,
+  port: number,
+  sslmode = "prefer",
+): Promise<Socket> {
+  const net = await import("node:net");
+  let stream: import("node:net").Socket = await new Promise(
+    (resolve, reject) => {
+      const x = net.connect(port, host);
+      x.once("connect", () => resolve(x));
+      x.once("error", (error) => reject(new NetworkError(error)));
+    },
+  );
+  if (sslmode !== "disable") {
+    stream.write(sslRequest());
+    const answer = await new Promise<Buffer>((resolve, reject) => {
+      const settle = (error?: Error, data?: Buffer) => {
+        stream.off("data", onData).off("error", onError).off("close", onClose);
+        error ? reject(new NetworkError(error)) : resolve(data!);
+      };
+      const onData = (data: Buffer) => settle(undefined, data);
+      const onError = (error: Error) => settle(error);
+      const onClose = () => settle(new Error("Connection closed"));
+      stream.on("data", onData).on("error", onError).on("close", onClose);
+    });
+    if (answer[0] === 83) {
+      const tls = await import("node:tls");
+      stream = await new Promise((resolve, reject) => {
+        const x = tls.connect({ socket: stream, servername: host });
+        x.once("secureConnect", () => resolve(x));
+        x.once("error", (error) => reject(new NetworkError(error)));
+      });
+    } else if (sslmode !== "prefer" && sslmode !== "allow") {
+      stream.destroy();
+      throw new NetworkError(new Error("The server does not support SSL"));
+    }
+  }
+  const socket: Socket = {
+    write: (data) => stream.write(data),
+    close: () => stream.end(),
+  };
+  stream.on("data", (data: Buffer) => socket.ondata?.(new Uint8Array(data)));
+  stream.on("close", () => socket.onclose?.());
+  stream.on("error", (error) => socket.onerror?.(error));
+  return socket;
+}
+
+// A single postgres session speaking the v3 wire protocol
+export class Connection {
+  socket: Socket;
+  buffer = new Uint8Array(0);
+  messages: Message[] = [];
+  waiting: { resolve: (x: Message) => void; reject: (x: unknown) => void }[] =
+    [];
+  error: unknown = null;
+  queue: Promise<unknown> = Promise.resolve();
+
+  constructor(socket: Socket) {
+    this.socket = socket;
+    socket.ondata = (data) => this.receive(data);
+    socket.onclose = () =>
+      this.fail(new NetworkError(new Error("Connection closed")));
+    socket.onerror = (error) => this.fail(new NetworkError(error));
+  }
+
+  static async connect(socket: Socket, options: ConnectionOptions) {
+    const connection = new Connection(socket);
+    await connection.startup(options);
+    return connection;
+  }
+
+  async startup(options: ConnectionOptions) {
+    this.write(
+      startupMessage({
+        user: options.user,
+        database: options.database,
+        client_encoding: "UTF8",
+        ...options.params,
+      }),
+    );
+    for (;;) {
+      const message = await this.next();
+      switch (message.type) {
+        case "R":
+          await this.authenticate(message.body, options);
+          break;
+        case "E":
+          throw postgresError(message.body);
+        case "Z":
+          return;
+      }
+    }
+  }
+
+  async authenticate(body: Uint8Array, options: ConnectionOptions) {
+    const view = new DataView(body.buffer, body.byteOffset, body.byteLength);
+    switch (view.getInt32(0)) {
+      case 0: // ok
+        return;
+      case 3: // cleartext
+        return this.write(frame("p", cstring(options.password)));
+      case 5: // md5
+        return this.write(
+          frame("p", cstring(await md5Password(options, body.slice(4, 8)))),
+        );
+      case 10: // sasl
+        return this.scram(options);
+      default:
+        throw new Error(
+          "Unsupported authentication method " + view.getInt32(0),
+        );
+    }
+  }
+
+  async scram(options: ConnectionOptions) {
+    const nonce = base64(crypto.getRandomValues(new Uint8Array(18)));
+    const clientFirst = "n=*,r=" + nonce;
+    const initial = encoder.encode("n,," + clientFirst);
+    this.write(
+      frame("p", cstring("SCRAM-SHA-256"), int32(initial.length), initial),
+    );
+
+    const serverFirst = decoder.decode((await this.auth(11)).slice(4));
+    const server = Object.fromEntries(
+      serverFirst.split(",").map((x) => [x[0], x.slice(2)]),
+    );
+    if (!server.r.startsWith(nonce)) throw new Error("SCRAM nonce mismatch");
+
+    const salted = new Uint8Array(
+      await crypto.subtle.deriveBits(
+        {
+          name: "PBKDF2",
+          hash: "SHA-256",
+          salt: unbase64(server.s),
+          iterations: +server.i,
+        },
+        await crypto.subtle.importKey(
+          "raw",
+          encoder.encode(options.password),
+          "PBKDF2",
+          false,
+          ["deriveBits"],
+        ),
+        256,
+      ),
+    );
+    const clientKey = await hmac(salted, "Client Key");
+    const storedKey = new Uint8Array(
+      await crypto.subtle.digest("SHA-256", clientKey),
+    );
+    const withoutProof = "c=biws,r=" + server.r;
+    const message = [clientFirst, serverFirst, withoutProof].join(",");
+    const signature = await hmac(storedKey, message);
+    const proof = clientKey.map((x, i) => x ^ signature[i]);
+    this.write(
+      frame("p", encoder.encode(withoutProof + ",p=" + base64(proof))),
+    );
+
+    const serverFinal = decoder.decode((await this.auth(12)).slice(4));
+    const expected = base64(
+      await hmac(await hmac(salted, "Server Key"), message),
+    );
+    if (serverFinal.slice(2) !== expected) {
+      throw new Error("SCRAM server signature mismatch");
+    }
+  }
+
+  // waits for a specific authentication message
+  async auth(code: number) {
+    const message = await this.next();
+    if (message.type === "E") throw postgresError(message.body);
+    const view = new DataView(message.body.buffer, message.body.byteOffset);
+    if (message.type !== "R" || view.getInt32(0) !== code) {
+      throw new Error("Unexpected authentication message");
+    }
+    return message.body;
+  }
+
+  // Runs one statement with the extended protocol, statements are queued so
+  // concurrent calls never interleave on the wire.
+  query(payload: Payload, statement: Statement = {}): Promise<Result> {
+    const run = this.queue.then(() => this.run(payload, statement));
+    this.queue = run.catch(() => {});
+    return run;
+  }
+
+  async run(payload: Payload, statement: Statement) {
+    const types = payload.types || [];
+    this.write(
+      concat(
+        frame(
+          "P",
+          cstring(""),
+          cstring(payload.query),
+          int16(types.length),
+          ...types.map(int32),
+        ),
+        frame(
+          "B",
+          cstring(""),
+          cstring(""),
+          int16(0),
+          int16(payload.params.length),
+          ...payload.params.flatMap((x) => {
+            if (x === null) return [int32(-1)];
+            const bytes = encoder.encode(x);
+            return [int32(bytes.length), bytes];
+          }),
+          int16(0),
+        ),
+        frame("D", encoder.encode("P"), cstring("")),
+        frame("E", cstring(""), int32(0)),
+        frame("S"),
+      ),
+    );
+
+    const result: Result = { command: "", rowCount: 0, rows: [], fields: [] };
+    let error: unknown = null;
+    for (;;) {
+      const message = await this.next();
+      switch (message.type) {
+        case "T":
+          result.fields = rowDescription(message.body);
+          break;
+        case "D":
+          result.rows.push(dataRow(message.body));
+          break;
+        case "C": {
+          const tag = decoder.decode(message.body.slice(0, -1)).split(" ");
+          result.command = tag[0];
+          result.rowCount = +tag[tag.length - 1] || 0;
+          break;
+        }
+        case "E":
+          error = postgresError(message.body, statement);
+          break;
+        case "Z":
+          if (error) throw error;
+          return result;
+      }
+    }
+  }
+
+  end() {
+    if (this.error) return;
+    this.write(frame("X"));
+    this.fail(new NetworkError(new Error("Connection ended")));
+    this.socket.close();
+  }
+
+  // Rejects pending and future reads, used on close and cancellation
+  fail(error: unknown) {
+    if (this.error) return;
+    this.error = error;
+    this.waiting.splice(0).forEach((x) => x.reject(error));
+  }
+
+  write(data: Uint8Array) {
+    if (this.error) throw this.error;
+    this.socket.write(data);
+  }
+
+  next(): Promise<Message> {
+    if (this.messages.length) return Promise.resolve(this.messages.shift()!);
+    if (this.error) return Promise.reject(this.error);
+    return new Promise((resolve, reject) =>
+      this.waiting.push({ resolve, reject }),
+    );
+  }
+
+  receive(data: Uint8Array) {
+    this.buffer = this.buffer.length ? concat(this.buffer, data) : data;
+    while (this.buffer.length >= 5) {
+      const view = new DataView(this.buffer.buffer, this.buffer.byteOffset);
+      const length = view.getInt32(1) + 1;
+      if (this.buffer.length < length) break;
+      const message = {
+        type: String.fromCharCode(this.buffer[0]),
+        body: this.buffer.slice(5, length),
+      };
+      this.buffer = this.buffer.slice(length);
+      // notices and async status updates are not request scoped
+      if (message.type === "N" || message.type === "S" || message.type === "K")
+        continue;
+      const waiter = this.waiting.shift();
+      waiter ? waiter.resolve(message) : this.messages.push(message);
+    }
+  }
+}
+
+function rowDescription(body: Uint8Array): Result["fields"] {
+  const view = new DataView(body.buffer, body.byteOffset, body.byteLength);
+  const fields: Result["fields"] = [];
+  let i = 2;
+  for (let n = view.getInt16(0); n > 0; n--) {
+    const end = body.indexOf(0, i);
+    const name = decoder.decode(body.slice(i, end));
+    i = end + 1;
+    fields.push({
+      name,
+      tableID: view.getInt32(i),
+      columnID: view.getInt16(i + 4),
+      dataTypeID: view.getInt32(i + 6),
+      dataTypeSize: view.getInt16(i + 10),
+      dataTypeModifier: view.getInt32(i + 12),
+      format: view.getInt16(i + 16) === 1 ? "binary" : "text",
+    });
+    i += 18;
+  }
+  return fields;
+}
+
+function dataRow(body: Uint8Array) {
+  const view = new DataView(body.buffer, body.byteOffset, body.byteLength);
+  const row: (string | null)[] = [];
+  let i = 2;
+  for (let n = view.getInt16(0); n > 0; n--) {
+    const length = view.getInt32(i);
+    i += 4;
+    if (length === -1) {
+      row.push(null);
+    } else {
+      row.push(decoder.decode(body.slice(i, i + length)));
+      i += length;
+    }
+  }
+  return row;
+}
+
+const errorFields = {
+  S: "severity",
+  C: "code",
+  M: "message",
+  D: "detail",
+  H: "hint",
+  P: "position",
+  p: "internalPosition",
+  q: "internalQuery",
+  W: "where",
+  s: "schema",
+  t: "table",
+  c: "column",
+  d: "dataType",
+  n: "constraint",
+  F: "file",
+  L: "line",
+  R: "routine",
+};
+
+function postgresError(body: Uint8Array, statement?: Statement) {
+  const x: any = {};
+  let i = 0;
+  while (body[i]) {
+    const end = body.indexOf(0, i + 1);
+    const key = errorFields[String.fromCharCode(body[i])];
+    if (key) x[key] = decoder.decode(body.slice(i + 1, end));
+    i = end + 1;
+  }
+  return new PostgresError(x, statement);
+}
+
+async function md5Password(options: ConnectionOptions, salt: Uint8Array) {
+  const { createHash } = await import("node:crypto");
+  const md5 = (x: string | Uint8Array) =>
+    createHash("md5").update(x).digest("hex");
+  const inner = md5(options.password + options.user);
+  return "md5" + md5(concat(encoder.encode(inner), salt));
+}
+
+async function hmac(key: Uint8Array, message: string) {
+  const k = await crypto.subtle.importKey(
+    "raw",
+    key,
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  return new Uint8Array(
+    await crypto.subtle.sign("HMAC", k, encoder.encode(message)),
+  );
+}
+
+function base64(x: Uint8Array) {
+  return btoa(String.fromCharCode(...x));
+}
+
+function unbase64(x: string) {
+  return Uint8Array.from(atob(x), (c) => c.charCodeAt(0));
+}
+
+function startupMessage(params: Record<string, string>) {
+  const body = concat(
+    int32(196608), // protocol 3.0
+    ...Object.entries(params).flatMap(([key, value]) => [
+      cstring(key),
+      cstring(value),
+    ]),
+    new Uint8Array([0]),
+  );
+  return concat(int32(body.length + 4), body);
+}
+
+function sslRequest() {
+  return concat(int32(8), int32(80877103));
+}
+
+function frame(type: string, ...chunks: Uint8Array[]) {
+  const body = concat(...chunks);
+  return concat(
+    new Uint8Array([type.charCodeAt(0)]),
+    int32(body.length + 4),
+    body,
+  );
+}
+
+function cstring(x: string) {
+  return concat(encoder.encode(x), new Uint8Array([0]));
+}
+
+function int16(x: number) {
+  const bytes = new Uint8Array(2);
+  new DataView(bytes.buffer).setInt16(0, x);
+  return bytes;
+}
+
+function int32(x: number) {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setInt32(0, x);
+  return bytes;
+}
+
+function concat(...chunks: Uint8Array[]) {
+  const bytes = new Uint8Array(chunks.reduce((a, x) => a + x.length, 0));
+  let i = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, i);
+    i += chunk.length;
+  }
+  return bytes;
+}
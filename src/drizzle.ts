@@ -0,0 +1,21 @@
+import type { DrizzleConfig } from "drizzle-orm";
+import { drizzle as proxy } from "drizzle-orm/pg-proxy";
+import { pgAdapter } from "./adapter";
+import type { SQL } from "./index";
+
+// Drizzle on top of its pg-proxy driver, which has no transactions. Values
+// reach drizzle parsed by this client, its column types accept those.
+export function drizzle<
+  TSchema extends Record<string, unknown> = Record<string, never>,
+>(sql: SQL, config?: DrizzleConfig<TSchema>) {
+  const adapter = pgAdapter(sql);
+  return proxy<TSchema>(
+    (text, values, method) =>
+      adapter.query(
+        method === "all"
+          ? { text, values, rowMode: "array" }
+          : { text, values },
+      ),
+    config,
+  );
+}
@@ -0,0 +1,167 @@
+export interface Statement {
+  query?: string;
+  params?: unknown[];
+  statements?: Statement[]; // the queries of a failed sql.begin batch
+}
+
+// Fields of a postgres ErrorResponse as returned by the sql-over-http endpoint
+export interface PostgresErrorFields {
+  message: string;
+  severity?: string;
+  code?: string;
+  detail?: string;
+  hint?: string;
+  position?: string;
+  internalPosition?: string;
+  internalQuery?: string;
+  where?: string;
+  schema?: string;
+  table?: string;
+  column?: string;
+  dataType?: string;
+  constraint?: string;
+  file?: string;
+  line?: string;
+  routine?: string;
+}
+
+const fields = [
+  "severity",
+  "code",
+  "detail",
+  "hint",
+  "position",
+  "internalPosition",
+  "internalQuery",
+  "where",
+  "schema",
+  "table",
+  "column",
+  "dataType",
+  "constraint",
+  "file",
+  "line",
+  "routine",
+] as const;
+
+export class NeonError extends Error {
+  query?: string;
+  params?: unknown[];
+  statements?: Statement[];
+  constructor(message: string, statement: Statement = {}) {
+    super(message);
+    this.name = this.constructor.name;
+    this.query = statement.query;
+    this.params = statement.params;
+    if (statement.statements) this.statements = statement.statements;
+  }
+}
+
+// A copy of the error for one of the queries of the batch it was raised for
+export function withStatement<E extends NeonError>(
+  error: E,
+  statement: Statement,
+) {
+  const copy: E = Object.create(
+    Object.getPrototypeOf(error),
+    Object.getOwnPropertyDescriptors(error),
+  );
+  copy.query = statement.query;
+  copy.params = statement.params;
+  delete copy.statements;
+  return copy;
+}
+
+// The database rejected the query, `code` is the SQLSTATE (eg. 23505)
+export class PostgresError extends NeonError implements PostgresErrorFields {
+  severity?: string;
+  code?: string;
+  detail?: string;
+  hint?: string;
+  position?: string;
+  internalPosition?: string;
+  internalQuery?: string;
+  where?: string;
+  schema?: string;
+  table?: string;
+  column?: string;
+  dataType?: string;
+  constraint?: string;
+  file?: string;
+  line?: string;
+  routine?: string;
+  constructor(x: PostgresErrorFields, statement?: Statement) {
+    super(x.message, statement);
+    for (const field of fields) {
+      if (x[field] !== undefined) this[field] = x[field];
+    }
+  }
+}
+
+// The endpoint answered with a non 2xx status that is not a postgres error
+export class HttpError extends NeonError {
+  status: number;
+  body: string;
+  constructor(status: number, body: string, statement?: Statement) {
+    super(`HTTP status ${status}: ${body}`, statement);
+    this.status = status;
+    this.body = body;
+  }
+}
+
+// The request never got a response (dns, connection reset, offline, ...)
+export class NetworkError extends NeonError {
+  cause: unknown;
+  constructor(cause: unknown, statement?: Statement) {
+    super(
+      "Network error: " + ((cause as { message?: string })?.message || cause),
+      statement,
+    );
+    this.cause = cause;
+  }
+}
+
+// The endpoint answered with a body that is not the expected JSON
+export class DecodeError extends NeonError {
+  status: number;
+  body: string;
+  constructor(status: number, body: string, statement?: Statement) {
+    super(`Invalid JSON response (HTTP status ${status})`, statement);
+    this.status = status;
+    this.body = body;
+  }
+}
+
+// The query did not complete within its timeout, retries included
+export class TimeoutError extends NeonError {
+  timeout: number;
+  constructor(timeout: number, statement?: Statement) {
+    super(`Query timed out after ${timeout}ms`, statement);
+    this.timeout = timeout;
+  }
+}
+
+// `.one()` expected a row but the query returned none
+export class NotFoundError extends NeonError {
+  constructor(statement?: Statement) {
+    super("Query returned no rows", statement);
+  }
+}
+
+// `.one()` or `.maybeOne()` got more than a single row
+export class TooManyRowsError extends NeonError {
+  count: number;
+  constructor(count: number, statement?: Statement) {
+    super(`Query returned ${count} rows, expected at most one`, statement);
+    this.count = count;
+  }
+}
+
+// A mock or replay fetch of the testing helpers had no answer for a query,
+// it is thrown as is instead of as a (retried) network error
+export class UnmatchedQueryError extends Error {
+  constructor(request: unknown) {
+    super("No mock or fixture for " + JSON.stringify(request));
+    this.name = "UnmatchedQueryError";
+  }
+}
@@ -0,0 +1,144 @@
+import { PostgresError } from "./errors";
+import type { Payload, Result } from "./index";
+
+export interface QueryEvent {
+  payload: Payload | Payload[]; // an array for sql.begin batches
+}
+
+export interface QueryResultEvent extends QueryEvent {
+  duration: number; // ms, retries included
+  status?: number; // http status, missing over the wire protocol
+  command: string | string[]; // one per statement in a batch
+  rowCount: number | number[];
+}
+
+export interface QueryErrorEvent extends QueryEvent {
+  duration: number;
+  status?: number;
+  error: unknown;
+}
+
+// The subset of an OpenTelemetry tracer we use, `trace.getTracer(name)`
+// from @opentelemetry/api fits as is.
+export interface Tracer {
+  startSpan(
+    name: string,
+    options?: { kind?: number; attributes?: Record<string, any> },
+  ): Span;
+}
+
+export interface Span {
+  setAttribute(key: string, value: any): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: any): unknown;
+  end(): void;
+}
+
+export interface Hooks {
+  onQuery?: (event: QueryEvent) => void;
+  onResult?: (event: QueryResultEvent) => void;
+  onError?: (event: QueryErrorEvent) => void;
+  debug?:
+    | boolean
+    | ((message: string, event: QueryResultEvent | QueryErrorEvent) => void);
+  tracer?: Tracer;
+}
+
+export interface Server {
+  host: string;
+  port: string;
+  database: string;
+}
+
+type Data = Result | { results: Result[] };
+
+const SPAN_KIND_CLIENT = 2;
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+// Runs a query (or batch) reporting it to the hooks and tracer
+export async function observe<T extends Data>(
+  hooks: Hooks,
+  server: Server,
+  payload: Payload | Payload[],
+  run: (meta: { status?: number }) => Promise<T>,
+): Promise<T> {
+  const meta: { status?: number } = {};
+  const batch = Array.isArray(payload);
+  const operation = batch ? "BATCH" : keyword(payload.query);
+  hooks.onQuery?.({ payload });
+  const span = hooks.tracer?.startSpan(`${operation} ${server.database}`, {
+    kind: SPAN_KIND_CLIENT,
+    attributes: {
+      "db.system": "postgresql",
+      "db.namespace": server.database,
+      "db.operation.name": operation,
+      "db.query.text": batch
+        ? payload.map((x) => x.query).join(";\n")
+        : payload.query,
+      "server.address": server.host,
+      "server.port": +server.port || 5432,
+      ...(batch && { "db.operation.batch.size": payload.length }),
+    },
+  });
+  const start = performance.now();
+  try {
+    const data = await run(meta);
+    const results: Result[] = "results" in data ? data.results : [data];
+    const event: QueryResultEvent = {
+      payload,
+      duration: performance.now() - start,
+      status: meta.status,
+      command: batch ? results.map((x) => x.command) : results[0].command,
+      rowCount: batch ? results.map((x) => x.rowCount) : results[0].rowCount,
+    };
+    span?.setAttribute(
+      "db.response.returned_rows",
+      results.reduce((a, x) => a + x.rows.length, 0),
+    );
+    span?.setStatus({ code: STATUS_OK });
+    hooks.onResult?.(event);
+    log(hooks, event);
+    return data;
+  } catch (error) {
+    const event: QueryErrorEvent = {
+      payload,
+      duration: performance.now() - start,
+      status: meta.status,
+      error,
+    };
+    if (span) {
+      const code = error instanceof PostgresError ? error.code : undefined;
+      if (code) span.setAttribute("db.response.status_code", code);
+      span.setAttribute(
+        "error.type",
+        code || (error instanceof Error ? error.name : "Error"),
+      );
+      span.recordException(error);
+      span.setStatus({ code: STATUS_ERROR, message: String(error) });
+    }
+    hooks.onError?.(event);
+    log(hooks, event);
+    throw error;
+  } finally {
+    span?.end();
+  }
+}
+
+function keyword(query: string) {
+  const match = query.match(/^[\s(]*([a-z]+)/i);
+  return match ? match[1].toUpperCase() : "QUERY";
+}
+
+function log(hooks: Hooks, event: QueryResultEvent | QueryErrorEvent) {
+  if (!hooks.debug) return;
+  const query = Array.isArray(event.payload)
+    ? event.payload.map((x) => x.query).join("; ")
+    : event.payload.query;
+  const message =
+    `${event.duration.toFixed(1)}ms ${query}` +
+    ("error" in event ? ` failed: ${event.error}` : "");
+  typeof hooks.debug === "function"
+    ? hooks.debug(message, event)
+    : console.debug("[neon-postgres] " + message);
+}
@@ -1,10 +1,85 @@
+import {
+  arraySerializer,
+  createTypeRegistry,
+  type TypeDefinition,
+  type TypeRegistry,
+} from "./types";
+
+import {
+  DecodeError,
+  HttpError,
+  NeonError,
+  NetworkError,
+  NotFoundError,
+  PostgresError,
+  TimeoutError,
+  TooManyRowsError,
+  withStatement,
+  type Statement,
+} from "./errors";
+import {
+  Connection,
+  tcpSocket,
+  webSocket,
+  type SocketFactory,
+} from "./connection";
+import {
+  backoff,
+  deadline,
+  isReadOnly,
+  isTransient,
+  parseRetry,
+  sleep,
+  type RetryOptions,
+} from "./retry";
+import { observe, type Hooks, type Server } from "./hooks";
+import { batcher, parseBatch, type BatchOptions } from "./batch";
+import { parseCache, writtenTable, type CacheOptions } from "./cache";
+import { stripComments } from "./statement";
+import {
+  createRouter,
+  createHost,
+  parseReplicas,
+  type Host,
+  type ReplicaOptions,
+} from "./replicas";
+
+export { types, arrayParser, arraySerializer } from "./types";
+export { Range, Point, Box, Circle, Cidr, Inet } from "./values";
+export type { RangeBounds } from "./values";
+export {
+  NeonError,
+  PostgresError,
+  HttpError,
+  NetworkError,
+  DecodeError,
+  TimeoutError,
+  NotFoundError,
+  TooManyRowsError,
+} from "./errors";
+export type { RetryOptions } from "./retry";
+export type { BatchOptions } from "./batch";
+export type { ReplicaOptions } from "./replicas";
+export { memoryStore } from "./cache";
+export type { CacheOptions, CacheStore, CacheEntry } from "./cache";
+export type { Socket, SocketFactory } from "./connection";
+export type { TypeDefinition } from "./types";
+export type {
+  Hooks,
+  QueryEvent,
+  QueryResultEvent,
+  QueryErrorEvent,
+  Tracer,
+  Span,
+} from "./hooks";
+
 export interface Payload {
   query: string;
-  params: string[];
+  params: (string | null)[];
   types?: number[];
 }
 
-interface Field {
+export interface Field {
   name: string;
   tableID: number;
   columnID: number;
@@ -17,72 +92,269 @@ interface Field {
 export interface Result {
   command: string;
   rowCount: number;
-  rows: string[][];
+  rows: (string | null)[][];
   fields: Field[];
 }
 
-type ResultSet<T extends any[]> = T[] & { command: string; count: number };
-function processResult<T extends any[]>(result: Result) {
+export type RowMode = "array" | "object";
+type RowFormat = RowMode | "raw"; // raw rows are left undecoded
+
+type ColumnTransform =
+  | ((column: string) => string)
+  | { from?: (column: string) => string; to?: (column: string) => string };
+
+export interface TransformOptions {
+  undefined?: any; // value sent in place of `undefined` parameters
+  column?: ColumnTransform; // a bare function only transforms result columns
+}
+
+export interface Options extends Hooks {
+  rowMode?: RowMode;
+  transform?: TransformOptions;
+  types?: Record<string, TypeDefinition>; // custom types, or overrides of builtin ones
+  redactParams?: boolean; // hide parameter values from errors
+  fetchFunction?: typeof fetch;
+  fetchEndpoint?: string | FetchEndpoint; // eg. "http://localhost:4444/sql"
+  fetchOptions?: RequestInit; // merged into every request
+  headers?: Record<string, string>;
+  timeout?: number; // ms per query, retries included
+  retry?: RetryOptions | boolean; // retry transient failures of read only queries
+  batch?: BatchOptions | boolean; // send queries issued together in one request
+  replicas?: string[] | ReplicaOptions; // read replicas, also taken from multi-host urls
+  connection?: Record<string, string | number | boolean>; // settings of every query, eg. search_path
+  cache?: CacheOptions; // store of the results of queries marked with .cache()
+  transport?: "websocket" | "tcp" | SocketFactory; // used by interactive transactions
+  wsProxy?: string | ((host: string, port: string) => string); // websocket url
+  webSocketConstructor?: typeof WebSocket;
+}
+
+export interface ExecuteOptions {
+  signal?: AbortSignal;
+  timeout?: number;
+  idempotent?: boolean; // allow retrying writes
+  replica?: boolean; // send to a read replica, by default when the statement is read only
+  cache?: { ttl?: number; tags?: string[] }; // reuse the result of identical read only queries
+}
+
+export type IsolationLevel =
+  "ReadUncommitted" | "ReadCommitted" | "RepeatableRead" | "Serializable";
+
+export interface TransactionOptions {
+  isolationLevel?: IsolationLevel;
+  readOnly?: boolean;
+  deferrable?: boolean; // only has an effect on serializable read only transactions
+}
+
+export interface BulkInsertOptions {
+  columns?: string[]; // defaults to the keys of the first row
+  chunkSize?: number; // rows per statement, defaults to what fits in 65535 parameters
+  onConflict?: PendingQuery; // a fragment, eg. sql`on conflict (id) do nothing`
+  unnest?: boolean; // send each column as a single typed array
+  types?: Record<string, number>; // element oids of the unnest columns, inferred by default
+}
+
+export interface UpsertOptions {
+  conflict: string[]; // columns of the unique constraint or index
+  update?: string[] | "all-except-conflict"; // set from `excluded`, none does nothing
+  where?: PendingQuery; // only update rows matching, eg. sql`t.version < excluded.version`
+  columns?: string[]; // inserted columns, defaults to the keys of the first row
+}
+
+// "name", "-created_at" (descending), or { created_at: "desc" }
+export type OrderBy = string | string[] | Record<string, string>;
+
+type FetchEndpoint = (host: string, port: string, path: string) => string;
+
+interface ParsedOptions {
+  rowMode: RowMode;
+  casts: boolean; // inline parameter types as casts, sql-over-http can't carry them
+  types: TypeRegistry;
+  redactParams: boolean;
+  fetchFunction: typeof fetch;
+  fetchEndpoint: FetchEndpoint;
+  fetchOptions: RequestInit;
+  headers: Record<string, string>;
+  timeout?: number;
+  retry: Required<RetryOptions>;
+  batch?: Required<BatchOptions>;
+  replicas: Required<ReplicaOptions>;
+  connection: Record<string, string>;
+  cache: ReturnType<typeof parseCache>;
+  transport: "websocket" | "tcp" | SocketFactory;
+  wsProxy: (host: string, port: string) => string;
+  webSocketConstructor?: typeof WebSocket;
+  hooks: Hooks;
+  transform: {
+    undefined: any;
+    column: {
+      from?: (column: string) => string;
+      to?: (column: string) => string;
+    };
+  };
+}
+
+function parseOptions(o: Options): ParsedOptions {
+  return {
+    rowMode: o.rowMode || "array",
+    casts: true,
+    types: createTypeRegistry(o.types),
+    redactParams: !!o.redactParams,
+    fetchFunction: o.fetchFunction || ((input, init) => fetch(input, init)),
+    fetchEndpoint:
+      typeof o.fetchEndpoint === "string"
+        ? () => o.fetchEndpoint as string
+        : o.fetchEndpoint || ((host) => `https://${host}/sql`),
+    fetchOptions: o.fetchOptions || {},
+    headers: o.headers || {},
+    timeout: o.timeout,
+    retry: parseRetry(o.retry),
+    batch: parseBatch(o.batch),
+    replicas: parseReplicas(o.replicas),
+    cache: parseCache(o.cache),
+    connection: Object.fromEntries(
+      Object.entries(o.connection || {}).map(([key, value]) => [
+        key,
+        String(value),
+      ]),
+    ),
+    transport: o.transport || "websocket",
+    wsProxy:
+      typeof o.wsProxy === "string"
+        ? (host, port) => `${o.wsProxy}?address=${host}:${port}`
+        : o.wsProxy || ((host) => `wss://${host}/v2`),
+    webSocketConstructor: o.webSocketConstructor,
+    hooks: {
+      onQuery: o.onQuery,
+      onResult: o.onResult,
+      onError: o.onError,
+      debug: o.debug,
+      tracer: o.tracer,
+    },
+    transform: parseTransform(o.transform || {}),
+  };
+}
+
+function parseTransform(x: TransformOptions) {
+  return {
+    undefined: x.undefined,
+    column: {
+      from:
+        typeof x.column === "function" ? x.column : x.column && x.column.from,
+      to: typeof x.column === "function" ? undefined : x.column && x.column.to,
+    },
+  };
+}
+
+export interface Column {
+  name: string; // as it appears in the rows, after the column transform
+  type: number; // oid
+  typeName?: string; // when the type is known to the registry
+  table: number; // oid of the table, 0 if the column isn't a table column
+  column: number; // attribute number in that table
+  size: number;
+  modifier: number;
+}
+
+export type ResultSet<T> = T[] & {
+  command: string;
+  count: number;
+  columns: Column[];
+  statement: Payload;
+};
+
+function processResult<T>(
+  result: Result,
+  payload: Payload,
+  options: ParsedOptions,
+  format: RowFormat = options.rowMode,
+) {
+  const from = options.transform.column.from;
+  const names = result.fields.map((x) => (from ? from(x.name) : x.name));
   const set = result.rows.map((row) => {
+    if (format === "raw") return row as T;
+    if (format === "object") {
+      const object = {};
+      for (let i = 0; i < row.length; i++) {
+        object[names[i]] = deserialize(
+          row[i],
+          result.fields[i].dataTypeID,
+          options.types,
+        );
+      }
+      return object as T;
+    }
     return row.map((value, index) => {
       const dataTypeId = result.fields[index].dataTypeID ?? -1;
-      return deserialize(value, dataTypeId);
+      return deserialize(value, dataTypeId, options.types);
     }) as T;
   }) as ResultSet<T>;
   set.command = result.command;
   set.count = result.rowCount;
+  set.columns = result.fields.map((x, i) => ({
+    name: names[i],
+    type: x.dataTypeID,
+    typeName: options.types.names[x.dataTypeID],
+    table: x.tableID,
+    column: x.columnID,
+    size: x.dataTypeSize,
+    modifier: x.dataTypeModifier,
+  }));
+  set.statement = payload;
   return set;
 }
 
-/*
-const postgresTypeOIDtoName = {
-  16: "bool",
-  17: "bytea",
-  20: "int8",
-  21: "int2",
-  23: "int4",
-  25: "text",
-  26: "oid",
-  700: "float4",
-  701: "float8",
-  1082: "date",
-  1184: "timestamptz",
-  1114: "timestamp",
-  114: "jsonb",
-  3802: "json",
-};
-*/
-
-function deserialize(value: string, dataTypeId: number) {
-  switch (dataTypeId) {
-    case 0: // numbers
-    case 21:
-    case 23:
-    case 26:
-    case 700:
-    case 701:
-      return +value;
-    case 17: // bytea
-      return Buffer.from(value.slice(2), "hex");
-    case 16: // bool
-      return value === "t";
-    case 20: // bigint
-      return BigInt(value);
-    case 25: // text
-      return value;
-    case 1184: // dates
-    case 1082:
-    case 1114:
-      return new Date(value);
-    case 3802: // json
-    case 114: // jsonb
-      return JSON.parse(value);
-    case 1007: // arrays
-      const v = arrayParser(value, (x: any) => deserialize(x, 0), 0).flat();
-      return v;
-    default:
-      return value;
+function deserialize(
+  value: string | null,
+  dataTypeId: number,
+  registry: TypeRegistry,
+) {
+  if (value === null) return null;
+  const parser = registry.parsers[dataTypeId];
+  return parser ? parser(value) : value;
+}
+
+function requestHeaders(
+  connectionString: string,
+  options: ParsedOptions,
+  transaction?: TransactionOptions,
+) {
+  const headers = new Headers({
+    "Neon-Connection-String": connectionString,
+    "Neon-Raw-Text-Output": "true", // because we do our own parsing with node-postgres
+    "Neon-Array-Mode": "true", // this saves data and post-processing even if we return objects, not arrays
+  });
+  if (transaction?.isolationLevel)
+    headers.set("Neon-Batch-Isolation-Level", transaction.isolationLevel);
+  if (transaction?.readOnly !== undefined)
+    headers.set("Neon-Batch-Read-Only", String(transaction.readOnly));
+  if (transaction?.deferrable !== undefined)
+    headers.set("Neon-Batch-Deferrable", String(transaction.deferrable));
+  new Headers(options.fetchOptions.headers).forEach((value, key) =>
+    headers.set(key, value),
+  );
+  for (const key in options.headers) headers.set(key, options.headers[key]);
+  return headers;
+}
+
+function describeStatement(payload: Payload, options: ParsedOptions) {
+  return {
+    query: payload.query,
+    params: options.redactParams
+      ? payload.params.map((x) => (x === null ? x : "[redacted]"))
+      : payload.params,
+  };
+}
+
+function responseError(status: number, body: string, statement: Statement) {
+  let error: any;
+  try {
+    error = JSON.parse(body);
+  } catch {
+    return new HttpError(status, body, statement);
   }
+  return error && typeof error.message === "string" && error.code
+    ? new PostgresError(error, statement)
+    : new HttpError(status, body, statement);
 }
 
 function transformPayload(payload: Payload) {
@@ -93,81 +365,758 @@ function transformPayload(payload: Payload) {
   };
 }
 
-export interface SQL {
-  (strings: TemplateStringsArray, ...args: any[]): Promise<any[][]>;
-  begin: (
-    itemsOrFn: Promise<Payload>[] | ((sql: SQL) => Promise<Payload>[]),
-  ) => Promise<any>;
-  execute: <T extends Array<any>>(payload: Payload) => Promise<T>;
+// A query, sent once awaited. Modifiers change how its result is returned,
+// `Row` is the type of the rows, eg. an interface generated by introspect.
+export interface PendingQuery<Row = any, T = Rows<Row>> extends Promise<T> {
+  timeout(ms: number): this;
+  signal(signal: AbortSignal): this;
+  idempotent(): this;
+  readonly(replica?: boolean): this; // route to a read replica, or to the primary with false
+  cache(options?: { ttl?: number; tags?: string[] }): this;
+  prepare(): Payload; // the query text and serialized params, without sending it
+  describe(options?: { inline?: boolean }): string; // the text with its params listed, or inlined as literals
+  toString(): string; // same as describe()
+  values(): PendingQuery<any[], any[][]>; // positional rows
+  raw(): PendingQuery<(string | null)[], (string | null)[][]>; // undecoded rows
+  one(): PendingQuery<Row, Row>; // throws unless exactly one row
+  maybeOne(): PendingQuery<Row, Row | null>; // throws on more than one row
+  first(): PendingQuery<Row, Row | undefined>;
+}
+
+// untyped queries stay a plain `any[]`
+type Rows<Row> = 0 extends 1 & Row ? any[] : ResultSet<Row>;
+
+interface BaseSQL {
+  <Row = any>(strings: TemplateStringsArray, ...args: any[]): PendingQuery<Row>;
+  execute: <T extends Array<any>>(
+    payload: Payload,
+    options?: ExecuteOptions,
+  ) => Promise<T>;
   array: (x: any) => Parameter;
+  typed: (x: any, type: number) => Parameter;
+  json: (x: any) => Parameter;
+  bigint: (x: bigint | number | string) => Parameter;
+  uuid: (x: string) => Parameter;
+  numeric: (x: number | bigint | string) => Parameter;
+  upsert: (
+    table: string,
+    rows: Record<string, unknown> | Record<string, unknown>[],
+    options: UpsertOptions,
+  ) => PendingQuery;
+  join: (fragments: unknown[], separator?: string) => PendingQuery;
+  and: (fragments: unknown[]) => PendingQuery; // falsy items are skipped
+  or: (fragments: unknown[]) => PendingQuery;
+  where: (filter: Record<string, unknown>) => PendingQuery;
+  orderBy: (spec: OrderBy, options: { allowed: string[] }) => PendingQuery;
+  unsafe: <Row = any>(
+    text: string, // trusted sql, with $1, $2... placeholders when params are given
+    params?: unknown[],
+    options?: { prepare?: boolean }, // false inlines the params as literals
+  ) => PendingQuery<Row>;
+  file: <Row = any>(
+    path: string, // read when the query runs
+    params?: unknown[],
+    options?: { prepare?: boolean },
+  ) => PendingQuery<Row>;
+}
+
+export interface SQL extends BaseSQL {
+  invalidate: (...tags: string[]) => Promise<void>; // drop cached results with any of the tags
+  bulkInsert: (
+    table: string,
+    rows: Record<string, unknown>[],
+    options?: BulkInsertOptions,
+  ) => Promise<number>;
+  begin: {
+    <T>(
+      fn: (sql: TransactionSQL) => Promise<T>,
+      options?: TransactionOptions & ExecuteOptions,
+    ): Promise<T>;
+    <const Q extends readonly Promise<any>[]>(
+      itemsOrFn: Q | ((sql: TransactionSQL) => Q),
+      options?: TransactionOptions & ExecuteOptions,
+    ): Promise<{ -readonly [K in keyof Q]: Awaited<Q[K]> }>;
+  };
+}
+
+export interface TransactionSQL extends BaseSQL {
+  savepoint: <T>(fn: (sql: TransactionSQL) => Promise<T>) => Promise<T>;
 }
 
-export function neon(connectionString: string) {
+export function neon(connectionString: string, o: Options = {}) {
   const parsed = parseUrl(connectionString);
+  const options = parseOptions(o);
+  const server: Server = {
+    host: parsed.url.hostname!,
+    port: parsed.url.port!,
+    database: parsed.url.pathname!.slice(1) || parsed.url.username!,
+  };
+  // the first host of a multi-host url is the primary, the others replicas
+  const hosts = parsed.multihost
+    ? parsed.multihost
+        .split(",")
+        .map((x) => connectionString.replace(parsed.multihost as string, x))
+    : [connectionString];
+  const router = createRouter(
+    createHost(hosts[0], parsed.url),
+    hosts
+      .slice(1)
+      .concat(options.replicas.urls)
+      .map((x) => createHost(x, parseUrl(x).url)),
+    options.replicas,
+  );
+  const settings = {
+    ...urlSettings(parsed.url.searchParams),
+    ...Object.fromEntries(
+      Object.entries(options.connection).filter(
+        ([name]) => !clientParameters.has(name),
+      ),
+    ),
+  };
+  // sql-over-http has no session, settings are applied to each request
+  // with a statement put in front of its queries
+  const settingsPrelude = settingsStatement(settings);
+  // settings are part of the key, the same query may read another schema
+  const cacheKey = (payload: Payload) =>
+    JSON.stringify([
+      server.host,
+      server.database,
+      settings,
+      payload.query,
+      payload.params,
+    ]);
+  async function invalidateWrites(payloads: Payload[]) {
+    const tables = payloads
+      .map((x) => writtenTable(x.query))
+      .filter((x): x is string => !!x);
+    if (options.cache.invalidateWrites && tables.length)
+      await options.cache.store.invalidate(tables);
+  }
   async function execute<T extends Array<any>>(
     payload: Payload[],
+    o?: ExecuteOptions & TransactionOptions,
+    formats?: (RowFormat | undefined)[],
   ): Promise<T[]>;
-  async function execute<T extends Array<any>>(payload: Payload): Promise<T>;
+  async function execute<T extends Array<any>>(
+    payload: Payload,
+    o?: ExecuteOptions,
+    format?: RowFormat,
+  ): Promise<T>;
   async function execute<T extends Array<any>>(
     payload: Payload | Payload[],
+    o: ExecuteOptions & TransactionOptions = {},
+    format?: RowFormat | (RowFormat | undefined)[],
   ): Promise<T | T[]> {
     const isTransaction = Array.isArray(payload);
-    const response = await fetch(`https://${parsed.url.hostname}/sql`, {
-      method: "POST",
-      headers: {
-        "Neon-Connection-String": connectionString,
-        "Neon-Raw-Text-Output": "true", // because we do our own parsing with node-postgres
-        "Neon-Array-Mode": "true", // this saves data and post-processing even if we return objects, not arrays
-      },
-      body: JSON.stringify(
-        isTransaction
-          ? { queries: payload.map(transformPayload) }
-          : transformPayload(payload),
-      ),
-    });
+    const statement = isTransaction
+      ? { statements: payload.map((x) => describeStatement(x, options)) }
+      : describeStatement(payload, options);
+    const timeout = o.timeout ?? options.timeout;
+    // .readonly(false) marks a statement that looks read only as a write
+    const readOnly =
+      o.replica !== false &&
+      (isTransaction ? payload : [payload]).every((x) => isReadOnly(x.query));
+    const idempotent = o.idempotent || o.readOnly || readOnly;
+    // batches only go to a replica when asked to, sql.begin expects the primary
+    const replica = o.replica ?? (!isTransaction && readOnly);
+    // writes always run, caching them would drop all but the first
+    const key = !isTransaction && readOnly && o.cache && cacheKey(payload);
+    if (key) {
+      const entry = await options.cache.store.get(key);
+      if (entry && entry.expires > Date.now()) {
+        return processResult(
+          entry.value,
+          payload as Payload,
+          options,
+          format as RowFormat | undefined,
+        ) as any;
+      }
+    }
+    const { signal, clear } = deadline(
+      [o.signal, options.fetchOptions.signal],
+      timeout,
+      () => new TimeoutError(timeout!, statement),
+    );
+    try {
+      const data = await observe(
+        options.hooks,
+        server,
+        payload,
+        async (meta) => {
+          const tried = new Set<Host>();
+          for (let attempt = 0; ;) {
+            if (signal.aborted) throw signal.reason;
+            const host = router.pick(replica, tried);
+            const start = Date.now();
+            try {
+              const data = await send(
+                host,
+                payload,
+                statement,
+                signal,
+                o,
+                meta,
+              );
+              router.succeeded(host, Date.now() - start);
+              return data;
+            } catch (error) {
+              if (signal.aborted) throw signal.reason;
+              if (isTransient(error)) {
+                router.failed(host);
+                // try another replica, or the primary once none is left
+                if (host !== router.primary) {
+                  tried.add(host);
+                  continue;
+                }
+              }
+              if (
+                !idempotent ||
+                attempt >= options.retry.retries ||
+                !isTransient(error)
+              ) {
+                throw error;
+              }
+              await sleep(backoff(attempt++, options.retry), signal);
+            }
+          }
+        },
+      );
+      if (key && !("results" in data)) {
+        await options.cache.store.set(key, {
+          value: data,
+          expires: Date.now() + (o.cache!.ttl ?? options.cache.ttl),
+          tags: o.cache!.tags || [],
+        });
+      } else if (!readOnly) {
+        await invalidateWrites(isTransaction ? payload : [payload]);
+      }
+      if ("results" in data) {
+        return data.results.map((x, i) =>
+          processResult(
+            x,
+            (payload as Payload[])[i],
+            options,
+            (format as RowFormat[] | undefined)?.[i],
+          ),
+        ) as any;
+      }
+      return processResult(
+        data,
+        payload as Payload,
+        options,
+        format as RowFormat | undefined,
+      ) as any;
+    } finally {
+      clear();
+    }
+  }
+  async function send(
+    host: Host,
+    payload: Payload | Payload[],
+    statement: Statement,
+    signal: AbortSignal,
+    transaction: TransactionOptions,
+    meta: { status?: number },
+  ) {
+    const { url } = host;
+    // a batch runs in a transaction, which some statements refuse
+    const prelude =
+      Array.isArray(payload) || !outsideTransaction(payload.query)
+        ? settingsPrelude
+        : undefined;
+    let response: Response, body: string;
+    try {
+      response = await options.fetchFunction(
+        options.fetchEndpoint(url.hostname!, url.port!, url.pathname!),
+        {
+          ...options.fetchOptions,
+          method: "POST",
+          headers: requestHeaders(
+            host.connectionString,
+            options,
+            Array.isArray(payload) ? transaction : undefined,
+          ),
+          body: JSON.stringify(
+            Array.isArray(payload) || prelude
+              ? {
+                  queries: (prelude ? [prelude] : [])
+                    .concat(payload)
+                    .map(transformPayload),
+                }
+              : transformPayload(payload),
+          ),
+          signal,
+        },
+      );
+      meta.status = response.status;
+      body = await response.text();
+    } catch (error) {
+      // by name, the testing entry point bundles its own copy of the class
+      if ((error as Error)?.name === "UnmatchedQueryError") throw error;
+      throw new NetworkError(error, statement);
+    }
     if (!response.ok) {
-      throw new Error(await response.text());
+      throw responseError(response.status, body, statement);
+    }
+    let data: Result | { results: Result[] };
+    try {
+      data = JSON.parse(body);
+    } catch {
+      throw new DecodeError(response.status, body, statement);
     }
-    const data = await response.json();
-    if (isTransaction) {
-      return (data as { results: Result[] }).results.map(processResult) as any;
+    if (prelude && "results" in data) {
+      const results = data.results.slice(1);
+      return Array.isArray(payload) ? { results } : results[0];
     }
-    return processResult(data as Result) as any;
+    return data;
   }
-  function sql(strings: any, ...args: any[]) {
-    const query =
-      strings && Array.isArray(strings.raw)
-        ? new Query(strings, args, execute)
-        : typeof strings === "string" && !args.length
-          ? new Identifier(strings)
-          : new Builder(strings, args);
-    return query;
+  async function connect() {
+    const { url } = parsed;
+    const host = url.hostname!;
+    const port = +url.port! || 5432;
+    const socket =
+      typeof options.transport === "function"
+        ? await options.transport(host, port)
+        : options.transport === "tcp"
+          ? await tcpSocket(
+              host,
+              port,
+              options.connection.sslmode ||
+                url.searchParams.get("sslmode") ||
+                undefined,
+            )
+          : await webSocket(
+              options.wsProxy(host, String(port)),
+              options.webSocketConstructor,
+            );
+    return Connection.connect(socket, {
+      host,
+      port,
+      user: url.username!,
+      password: url.password!,
+      database: url.pathname!.slice(1) || url.username!,
+      params: settings,
+    });
   }
-
-  sql.begin = async function (
-    itemsOrFn: Promise<Payload>[] | ((_sql: typeof sql) => Promise<Payload>[]),
-  ) {
-    const items = typeof itemsOrFn === "function" ? itemsOrFn(sql) : itemsOrFn;
-    if (items instanceof Promise) {
-      throw new Error(
-        "Invalid transaction, interactive transactions are not supported",
+  // Interactive transactions hold a wire protocol connection, opened on the
+  // first query so a callback returning an array can still be batched.
+  function transaction(o: TransactionOptions & ExecuteOptions) {
+    let connection: Promise<Connection> | undefined;
+    let savepoints = 0;
+    async function handler(
+      payload: Payload,
+      e: ExecuteOptions,
+      format?: RowFormat,
+    ) {
+      const c = await (connection ??= connect().then(async (x) => {
+        await x.query({ query: beginStatement(o), params: [] });
+        return x;
+      }));
+      const statement = describeStatement(payload, options);
+      const timeout = e.timeout ?? o.timeout ?? options.timeout;
+      const { signal, clear } = deadline(
+        [e.signal, o.signal],
+        timeout,
+        () => new TimeoutError(timeout!, statement),
       );
+      const abort = () => {
+        c.fail(signal.reason);
+        c.socket.close();
+      };
+      signal.aborted ? abort() : signal.addEventListener("abort", abort);
+      try {
+        const result = await observe(options.hooks, server, payload, () =>
+          c.query(payload, statement),
+        );
+        if (!isReadOnly(payload.query)) await invalidateWrites([payload]);
+        return processResult(result, payload, options, format);
+      } finally {
+        signal.removeEventListener("abort", abort);
+        clear();
+      }
     }
+    const raw = (query: string) => handler({ query, params: [] }, {});
+    const tx: any = createSql({ ...options, casts: false }, handler);
+    tx.execute = (payload: Payload, e: ExecuteOptions = {}) =>
+      handler(payload, e);
+    tx.savepoint = async function (fn: (sql: TransactionSQL) => Promise<any>) {
+      const name = "s" + ++savepoints;
+      await raw("savepoint " + name);
+      try {
+        const result = await fn(tx);
+        await raw("release savepoint " + name);
+        return result;
+      } catch (error) {
+        await raw("rollback to savepoint " + name);
+        throw error;
+      }
+    };
+    return {
+      sql: tx as TransactionSQL,
+      async run<T>(promise: Promise<T>) {
+        try {
+          const result = await promise;
+          if (connection && (await raw("commit")).command === "ROLLBACK") {
+            throw new Error("Transaction was rolled back after an error");
+          }
+          return result;
+        } catch (error) {
+          if (connection) await raw("rollback").catch(() => {});
+          throw error;
+        } finally {
+          connection?.then(
+            (x) => x.end(),
+            () => {},
+          );
+        }
+      },
+    };
+  }
+  async function batch(items: unknown, o: TransactionOptions & ExecuteOptions) {
     if (!Array.isArray(items)) {
       throw new Error("Invalid transaction, expected an array of queries");
     }
+    await Promise.all(items.map((x) => x instanceof Query && x.loadFiles()));
     const queries = items.map((item) => {
+      // queries of a transaction callback are sent over http too
       if (item instanceof Query) {
-        return item.prepare();
+        return item.prepare({ casts: true });
       }
       throw new Error("Invalid query, expected a Query object");
     });
-    return execute(queries);
+    const results = await execute(
+      queries,
+      o,
+      items.map((x: Query) => x.format),
+    );
+    return results.map((x, i) => items[i].pick(x));
+  }
+
+  // Queries with their own signal or timeout can't share a request
+  const batched =
+    options.batch &&
+    batcher(
+      options.batch,
+      (items: [Payload, RowFormat?][]) =>
+        execute(
+          items.map((x) => x[0]),
+          { replica: items.every((x) => isReadOnly(x[0].query)) },
+          items.map((x) => x[1]),
+        ),
+      ([payload, format]) => execute(payload, {}, format),
+      (error, [payload]) =>
+        error instanceof NeonError
+          ? withStatement(error, describeStatement(payload, options))
+          : error,
+    );
+  const handler: Handler = (payload, e, format) =>
+    batched &&
+    !e.signal &&
+    e.timeout === undefined &&
+    !e.idempotent &&
+    e.replica === undefined &&
+    !e.cache
+      ? batched([payload, format])
+      : execute(payload, e, format);
+
+  const sql: any = createSql(options, handler);
+  sql.begin = async function (
+    itemsOrFn:
+      | Promise<Payload>[]
+      | ((_sql: TransactionSQL) => Promise<Payload>[] | Promise<unknown>),
+    o: TransactionOptions & ExecuteOptions = {},
+  ) {
+    if (typeof itemsOrFn !== "function") return batch(itemsOrFn, o);
+    const tx = transaction(o);
+    const items = itemsOrFn(tx.sql);
+    return items instanceof Promise ? tx.run(items) : batch(items, o);
   };
+  sql.bulkInsert = (
+    table: string,
+    rows: Record<string, unknown>[],
+    o?: BulkInsertOptions,
+  ) => bulkInsert(sql, options, table, rows, o);
+  sql.invalidate = async (...tags: string[]) =>
+    options.cache.store.invalidate(tags);
   sql.execute = execute;
+  return sql as SQL;
+}
+
+type Handler = (payload: Payload, o: ExecuteOptions, format?: RowFormat) => any;
+
+function createSql(options: ParsedOptions, handler: Handler) {
+  function sql(strings: any, ...args: any[]) {
+    const query =
+      strings && Array.isArray(strings.raw)
+        ? new Query(strings, args, handler, options)
+        : typeof strings === "string" && !args.length
+          ? new Identifier(
+              options.transform.column.to
+                ? options.transform.column.to(strings)
+                : strings,
+            )
+          : new Builder(strings, args);
+    return query;
+  }
   sql.array = (x: Array<any>) =>
-    new Parameter(x, x.length ? inferType(x) || 25 : 0);
-  return sql as unknown as SQL;
+    new Parameter(x, x.length ? inferType(x, options.types) || 1009 : 0);
+  sql.typed = (x: any, type: number) => new Parameter(x, type, true);
+  sql.json = (x: any) => new Parameter(x, 3802, true);
+  sql.bigint = (x: bigint | number | string) => new Parameter(x, 20, true);
+  sql.uuid = (x: string) => new Parameter(x, 2950, true);
+  sql.numeric = (x: number | bigint | string) => new Parameter(x, 1700, true);
+  sql.upsert = (
+    table: string,
+    rows: Record<string, unknown> | Record<string, unknown>[],
+    o: UpsertOptions,
+  ) => upsert(sql, options, table, rows, o);
+  sql.join = (fragments: unknown[], separator = ", ") =>
+    join(sql, fragments, separator);
+  sql.and = (fragments: unknown[]) => conditions(sql, fragments, "and");
+  sql.or = (fragments: unknown[]) => conditions(sql, fragments, "or");
+  sql.where = (filter: Record<string, unknown>) => where(sql, filter);
+  sql.orderBy = (spec: OrderBy, o: { allowed: string[] }) =>
+    orderBy(sql, options, spec, o);
+  sql.unsafe = (text: string, params?: unknown[], o?: { prepare?: boolean }) =>
+    unsafe(sql, text, params, o);
+  sql.file = (path: string, params?: unknown[], o?: { prepare?: boolean }) => {
+    const query = unsafe(sql, "", params, o);
+    query.load = async () => {
+      const { readFile } = await import("node:fs/promises");
+      const loaded = unsafe(sql, await readFile(path, "utf8"), params, o);
+      query.strings = loaded.strings;
+      query.args = loaded.args;
+      query.load = undefined;
+    };
+    return query;
+  };
+  return sql;
+}
+
+const MAX_PARAMETERS = 65535;
+
+// Inserts the rows in chunks, all of them in a single batch
+async function bulkInsert(
+  sql: any,
+  options: ParsedOptions,
+  table: string,
+  rows: Record<string, unknown>[],
+  o: BulkInsertOptions = {},
+) {
+  if (!rows.length) return 0;
+  const columns = o.columns || Object.keys(rows[0]);
+  const chunkSize =
+    o.chunkSize ||
+    (o.unnest ? 5000 : Math.floor(MAX_PARAMETERS / columns.length));
+  const onConflict = o.onConflict || sql``;
+  const queries: PendingQuery[] = [];
+  for (let i = 0; i < rows.length; i += chunkSize) {
+    const chunk = rows.slice(i, i + chunkSize);
+    queries.push(
+      o.unnest
+        ? sql(
+            template([
+              "insert into ",
+              " (",
+              ...columns.slice(1).map(() => ","),
+              ") select * from unnest(",
+              ...columns.slice(1).map(() => ","),
+              ") ",
+              "",
+            ]),
+            sql(table),
+            ...columns.map((x) => sql(x)),
+            ...columns.map((x) => unnestColumn(chunk, x, o, options)),
+            onConflict,
+          )
+        : sql`insert into ${sql(table)}${sql(chunk, columns)} ${onConflict}`,
+    );
+  }
+  const results: ResultSet<unknown>[] =
+    queries.length === 1 ? [await queries[0]] : await sql.begin(queries);
+  return results.reduce((count, x) => count + x.count, 0);
+}
+
+function unnestColumn(
+  rows: Record<string, unknown>[],
+  column: string,
+  o: BulkInsertOptions,
+  options: ParsedOptions,
+) {
+  const values = rows.map((row) => row[column] ?? null);
+  if (values.some(Array.isArray)) {
+    // unnest would flatten them
+    throw new Error(`Array column "${column}" can't be inserted with unnest`);
+  }
+  const element = o.types?.[column];
+  const type = element
+    ? options.types.arrays[element]
+    : inferType(values, options.types);
+  return new Parameter(values, type || 1009, true);
+}
+
+function upsert(
+  sql: any,
+  options: ParsedOptions,
+  table: string,
+  rows: Record<string, unknown> | Record<string, unknown>[],
+  o: UpsertOptions,
+) {
+  const list = Array.isArray(rows) ? rows : [rows];
+  // unlike bulkInsert it builds a query rather than sending one, so there is
+  // nothing to return instead
+  if (!list.length)
+    throw new Error("Invalid upsert, expected at least one row");
+  const columns = o.columns || Object.keys(list[0]);
+  const update =
+    !o.update || o.update === "all-except-conflict"
+      ? columns.filter((x) => !o.conflict.includes(x))
+      : o.update;
+  const column = (x: string) => escapeIdentifiers([x], options);
+  const action = update.length
+    ? "do update set " +
+      update.map((x) => column(x) + "=excluded." + column(x)).join(",") +
+      (o.where ? " where " : "")
+    : "do nothing";
+  return sql(
+    template([
+      "insert into ",
+      "",
+      ` on conflict (${escapeIdentifiers(o.conflict, options)}) ${action}`,
+      "",
+    ]),
+    sql(table),
+    sql(list, columns),
+    (update.length && o.where) || sql``,
+  );
+}
+
+// The separator is sql text, it is not escaped
+function join(sql: any, fragments: unknown[], separator: string) {
+  return sql(
+    template(["", ...fragments.slice(1).map(() => separator), ""]),
+    ...fragments,
+  );
+}
+
+function conditions(sql: any, fragments: unknown[], operator: "and" | "or") {
+  const xs = fragments.filter(
+    (x) => x !== undefined && x !== null && x !== false,
+  );
+  if (!xs.length) return operator === "and" ? sql`true` : sql`false`;
+  return join(
+    sql,
+    xs.map((x) => sql`(${x})`),
+    ` ${operator} `,
+  );
+}
+
+// Equality filter, null matches with `is null`, arrays with `in` and
+// undefined values are skipped
+function where(sql: any, filter: Record<string, unknown>) {
+  const xs = Object.keys(filter)
+    .filter((key) => filter[key] !== undefined)
+    .map((key) => {
+      const value = filter[key];
+      return value === null
+        ? sql`${sql(key)} is null`
+        : Array.isArray(value)
+          ? sql`${sql(key)} in ${sql(value)}`
+          : sql`${sql(key)} = ${value}`;
+    });
+  return xs.length ? sql`where ${join(sql, xs, " and ")}` : sql``;
+}
+
+function orderBy(
+  sql: any,
+  options: ParsedOptions,
+  spec: OrderBy,
+  o: { allowed: string[] },
+) {
+  const items =
+    typeof spec === "string"
+      ? spec.split(",")
+      : Array.isArray(spec)
+        ? spec
+        : Object.keys(spec).map((key) => {
+            const direction = spec[key].toLowerCase();
+            if (direction !== "asc" && direction !== "desc") {
+              throw new Error(`Invalid sort direction "${spec[key]}"`);
+            }
+            return (direction === "desc" ? "-" : "") + key;
+          });
+  const columns = items
+    .map((x) => x.trim())
+    .filter(Boolean)
+    .map((x) => {
+      const column = x.replace(/^[-+]/, "");
+      if (!o.allowed.includes(column)) {
+        throw new Error(`Sorting by "${column}" is not allowed`);
+      }
+      return (
+        escapeIdentifiers([column], options) + (x[0] === "-" ? " desc" : " asc")
+      );
+    });
+  return sql(template([columns.length ? "order by " + columns.join(",") : ""]));
+}
+
+const template = (strings: string[]) =>
+  Object.assign(strings, { raw: strings });
+
+// strings, quoted identifiers, comments and dollar quoted bodies are skipped
+const placeholders =
+  /'(?:[^']|'')*'|"(?:[^"]|"")*"|--[^\n]*|\/\*[\s\S]*?\*\/|\$([A-Za-z_]\w*)?\$[\s\S]*?\$\1\$|\$(\d+)/g;
+
+// The tagged template the text could have been written as, each $n
+// placeholder becomes a parameter. Without params the text is sent as is.
+function unsafe(
+  sql: any,
+  text: string,
+  params?: unknown[],
+  o: { prepare?: boolean } = {},
+): Query {
+  const strings: string[] = [];
+  const args: unknown[] = [];
+  let last = 0;
+  for (const match of params ? text.matchAll(placeholders) : []) {
+    if (!match[2]) continue;
+    if (+match[2] > params!.length) {
+      throw new Error(
+        `Missing value for $${match[2]}, ${params!.length} given`,
+      );
+    }
+    strings.push(text.slice(last, match.index));
+    args.push(params![+match[2] - 1]);
+    last = match.index! + match[0].length;
+  }
+  strings.push(text.slice(last));
+  const query = sql(template(strings), ...args);
+  query.inline = o.prepare === false;
+  return query;
+}
+
+// a serialized value as a string constant, standard_conforming_strings keeps
+// the backslashes as they are
+function literal(x: string | null) {
+  return x === null ? "null" : "'" + x.replace(/'/g, "''") + "'";
+}
+
+function beginStatement(o: TransactionOptions) {
+  const level = o.isolationLevel?.replace(/([a-z])([A-Z])/g, "$1 $2");
+  return (
+    "begin" +
+    (level ? " isolation level " + level.toLowerCase() : "") +
+    (o.readOnly === undefined
+      ? ""
+      : o.readOnly
+        ? " read only"
+        : " read write") +
+    (o.deferrable === undefined
+      ? ""
+      : o.deferrable
+        ? " deferrable"
+        : " not deferrable")
+  );
 }
 
 class NotTagged {
@@ -189,11 +1138,23 @@ function notTagged() {
 class Query extends Promise<Payload> {
   strings: any;
   fragment?: boolean;
+  executed = false;
   args: any[];
   resolve: (value: Payload | PromiseLike<Payload>) => void;
   reject: (reason?: any) => void;
-  handler: (payload: Payload) => any;
-  constructor(strings: any, args: any[], handler: (payload: Payload) => any) {
+  handler: Handler;
+  options: ParsedOptions;
+  execution: ExecuteOptions = {};
+  format?: RowFormat;
+  picking?: "one" | "maybeOne" | "first";
+  inline = false; // params are rendered as literals
+  load?: () => Promise<void>; // reads the text of sql.file queries
+  constructor(
+    strings: any,
+    args: any[],
+    handler: Handler,
+    options: ParsedOptions,
+  ) {
     let resolve, reject;
     super((a, b) => {
       resolve = a;
@@ -209,50 +1170,148 @@ class Query extends Promise<Payload> {
             ? x
             : x instanceof Builder
               ? x
-              : new Parameter(x);
+              : new Parameter(x, inferType(x, options.types));
     });
     this.resolve = resolve!;
     this.reject = reject!;
     this.handler = handler;
+    this.options = options;
   }
   static get [Symbol.species]() {
     return Promise;
   }
-  prepare() {
+  // `inferred` collects the type inferred for each param, sent or not
+  prepare(o: { inline?: boolean; inferred?: number[]; casts?: boolean } = {}) {
+    if (this.load) {
+      throw new Error("The file of the query isn't read until it runs");
+    }
     let parameters: any[] = [],
       types: any[] = [];
+    const inline = o.inline || this.inline;
     const query = stringify(
       this,
       this.strings[0],
       this.args[0],
       parameters,
       types,
-      {},
+      inline || o.inferred || o.casts !== undefined
+        ? {
+            ...this.options,
+            inline,
+            inferred: o.inferred,
+            casts: o.casts ?? this.options.casts,
+          }
+        : this.options,
     );
     const payload: Payload = {
       query,
-      params: parameters.map(serialize),
+      params: parameters,
       types: types,
     };
     return payload;
   }
   handle() {
-    this.handler(this.prepare()).then(this.resolve).catch(this.reject);
+    if (this.executed) return;
+    this.executed = true;
+    Promise.resolve()
+      .then(() => this.loadFiles())
+      .then(() => this.handler(this.prepare(), this.execution, this.format))
+      .then((x) => this.pick(x))
+      .then(this.resolve, this.reject);
+  }
+  pick(rows: ResultSet<any>) {
+    if (!this.picking) return rows;
+    if (this.picking === "first") return rows[0];
+    const statement = describeStatement(rows.statement, this.options);
+    if (rows.length > 1) throw new TooManyRowsError(rows.length, statement);
+    if (rows.length) return rows[0];
+    if (this.picking === "one") throw new NotFoundError(statement);
+    return null;
+  }
+  // reads the files of sql.file queries, the nested ones included
+  async loadFiles(): Promise<void> {
+    if (this.load) await this.load();
+    await Promise.all(
+      this.args
+        .flatMap((x) =>
+          x instanceof Query ? [x] : x && x[0] instanceof Query ? x : [],
+        )
+        .map((x: Query) => x.loadFiles()),
+    );
+  }
+  // the text as sent, followed by a comment per param with the type inferred
+  // for it, which is only sent when the client is sure about it
+  describe(o: { inline?: boolean } = {}) {
+    const inferred: number[] = [];
+    const { query, params, types = [] } = this.prepare({ ...o, inferred });
+    const names = this.options.types.names;
+    return params.reduce<string>(
+      (text, x, i) =>
+        text +
+        `\n-- $${i + 1} = ${literal(x)} (${names[inferred[i]] || inferred[i] || "unknown"}${types[i] ? "" : ", not sent"})`,
+      query,
+    );
+  }
+  toString() {
+    return this.describe();
+  }
+  timeout(ms: number) {
+    this.execution.timeout = ms;
+    return this;
+  }
+  signal(signal: AbortSignal) {
+    this.execution.signal = signal;
+    return this;
+  }
+  // mark a write as safe to retry
+  idempotent() {
+    this.execution.idempotent = true;
+    return this;
+  }
+  // send to a read replica even if the statement doesn't look read only, or
+  // with false to the primary, without retries or caching, even if it does
+  readonly(replica = true) {
+    this.execution.replica = replica;
+    return this;
+  }
+  cache(o: { ttl?: number; tags?: string[] } = {}) {
+    this.execution.cache = o;
+    return this;
+  }
+  values() {
+    this.format = "array";
+    return this;
+  }
+  raw() {
+    this.format = "raw";
+    return this;
+  }
+  one() {
+    this.picking = "one";
+    return this;
+  }
+  maybeOne() {
+    this.picking = "maybeOne";
+    return this;
+  }
+  first() {
+    this.picking = "first";
+    return this;
   }
   // @ts-ignore
   then() {
     this.handle();
-    super.then.apply(this, arguments as any);
+    return super.then.apply(this, arguments as any);
   }
   // @ts-ignore
   catch() {
     this.handle();
-    super.catch.apply(this, arguments as any);
+    return super.catch.apply(this, arguments as any);
   }
   // @ts-ignore
   finally() {
     this.handle();
-    super.finally.apply(this, arguments as any);
+    return super.finally.apply(this, arguments as any);
   }
 }
 
@@ -267,12 +1326,12 @@ class Identifier extends NotTagged {
 class Parameter extends NotTagged {
   value: any;
   type: number;
-  array: any[] | null;
-  constructor(value: any, type = inferType(value)) {
+  explicit: boolean; // declared by the user rather than inferred
+  constructor(value: any, type = inferType(value), explicit = false) {
     super();
     this.value = value;
     this.type = type;
-    this.array = Array.isArray(value) ? value.map(inferType) : null;
+    this.explicit = explicit;
   }
 }
 
@@ -343,12 +1402,15 @@ function fragment(
   options: any = {},
 ) {
   q.fragment = true;
-  return stringify(q, q.strings[0], q.args[0], parameters, types, options);
-}
-
-function firstIsString(x: any) {
-  if (Array.isArray(x)) return firstIsString(x[0]);
-  return typeof x === "string" ? 1009 : 0;
+  if (q.load) throw new Error("The file of the query isn't read until it runs");
+  return stringify(
+    q,
+    q.strings[0],
+    q.args[0],
+    parameters,
+    types,
+    q.inline ? { ...options, inline: true } : options,
+  );
 }
 
 function handleValue(
@@ -360,59 +1422,66 @@ function handleValue(
   let value = x instanceof Parameter ? x.value : x;
   if (value === undefined) {
     x instanceof Parameter
-      ? (x.value = options.transform.undefined)
+      ? (value = x.value = options.transform.undefined)
       : (value = x = options.transform.undefined);
 
     if (value === undefined)
       throw new Error("Undefined values are not allowed");
   }
-  const idx = types.push(
-    x instanceof Parameter
-      ? (parameters.push(x.value),
-        x.array
-          ? x.array[x.type || inferType(x.value)] ||
-            x.type ||
-            firstIsString(x.value)
-          : x.type)
-      : (parameters.push(x), inferType(x)),
-  );
-
-  return "$" + idx;
+  const registry: TypeRegistry = options.types;
+  const type = x instanceof Parameter ? x.type : inferType(x, registry);
+  const serialized = serialize(value, type, registry);
+  // only types we are sure about are sent, the rest is left to the server
+  const sent =
+    (x instanceof Parameter && x.explicit) || registry.casts.has(type)
+      ? type
+      : 0;
+  const name = sent && registry.names[sent];
+  // a literal keeps its type as a cast whatever the transport
+  if (options.inline) return literal(serialized) + (name ? "::" + name : "");
+  parameters.push(serialized);
+  options.inferred?.push(type);
+  const idx = types.push(sent);
+  const cast = options.casts && name;
+  return "$" + idx + (cast ? "::" + cast : "");
 }
 
-function inferType(x: any): number {
-  return x instanceof Parameter
-    ? x.type
-    : x instanceof Date
-      ? 1184
-      : x instanceof Uint8Array
-        ? 17
-        : x === true || x === false
-          ? 16
-          : typeof x === "bigint"
-            ? 20
-            : Array.isArray(x)
-              ? inferType(x[0])
-              : inferScalarType(x);
-}
+const defaultTypes = createTypeRegistry();
 
-const inferScalarType = function inferScalarType(x: any): number {
-  if (x === null) return 0;
-  switch (typeof x) {
-    case "string":
-      return 25;
-    case "number":
-      return x % 1 === 0 ? 23 : 700;
-    case "boolean":
-      return 16;
-    case "object":
-      return 114;
+function inferType(x: any, registry = defaultTypes): number {
+  if (x instanceof Parameter) return x.type;
+  if (x === null || x === undefined) return 0;
+  if (Array.isArray(x)) {
+    const elements = x
+      .flat(Infinity)
+      .filter((x) => x !== null && x !== undefined)
+      .map((x) => inferType(x, registry));
+    // mixed numbers widen to the type that can hold all of them
+    const element = elements.every((x) => x === elements[0])
+      ? elements[0]
+      : elements.find((x) => x === 701) ||
+        elements.find((x) => x === 20) ||
+        elements[0];
+    return registry.arrays[element] || 0;
   }
-  return 0;
-};
+  const type = registry.detectors.find((type) => type.detect!(x));
+  return type ? type.oid : 0;
+}
 
-const serialize = (value: any) => {
+const serialize = (
+  value: any,
+  type: number,
+  registry: TypeRegistry,
+): string | null => {
   const x = value instanceof Parameter ? value.value : value;
+  if (x === null) return null;
+  // arrays given a scalar type, eg. json, are values of that type
+  if (Array.isArray(x) && (!type || registry.elements[type])) {
+    const element = registry.elements[type] || type;
+    return arraySerializer(x, (x) => serialize(x, element, registry), type);
+  }
+  const serializer = registry.serializers[type];
+  if (serializer) return serializer(x);
   switch (typeof x) {
     case "string":
       return x;
@@ -426,14 +1495,12 @@ const serialize = (value: any) => {
       if (x instanceof Date) {
         return x.toISOString();
       }
-      if (Array.isArray(x)) {
-        return "{" + x.map(serialize).join(",") + "}";
-      }
       return JSON.stringify(x);
   }
+  return null;
 };
 
-function escapeIdentifiers(xs: any[], { transform: { column } }) {
+function escapeIdentifiers(xs: any[], { transform: { column } }: any) {
   return xs
     .map((x) => escapeIdentifier(column.to ? column.to(x) : x))
     .join(",");
@@ -443,6 +1510,120 @@ const escapeIdentifier = function escape(str: string) {
   return '"' + str.replace(/"/g, '""').replace(/\./g, '"."') + '"';
 };
 
+export const toCamel = (x: string) => {
+  let str = x[0];
+  for (let i = 1; i < x.length; i++)
+    str += x[i] === "_" && i + 1 < x.length ? x[++i].toUpperCase() : x[i];
+  return str;
+};
+
+export const toPascal = (x: string) => {
+  let str = x[0].toUpperCase();
+  for (let i = 1; i < x.length; i++)
+    str += x[i] === "_" && i + 1 < x.length ? x[++i].toUpperCase() : x[i];
+  return str;
+};
+
+export const toKebab = (x: string) => x.replace(/_/g, "-");
+
+export const fromCamel = (x: string) =>
+  x.replace(/([A-Z])/g, "_$1").toLowerCase();
+
+export const fromPascal = (x: string) =>
+  (x.slice(0, 1) + x.slice(1).replace(/([A-Z])/g, "_$1")).toLowerCase();
+
+export const fromKebab = (x: string) => x.replace(/-/g, "_");
+
+// presets are named after the case of the keys you get back in javascript
+export const camel = { column: { from: toCamel, to: fromCamel } };
+export const pascal = { column: { from: toPascal, to: fromPascal } };
+export const kebab = { column: { from: toKebab, to: fromKebab } };
+export const snake = { column: { from: fromCamel, to: toCamel } };
+
+// Session settings given as url parameters, `options` holds `-c name=value`
+// pairs as in libpq
+function urlSettings(params: { get(name: string): string | null }) {
+  const settings: Record<string, string> = {};
+  for (const name of ["application_name", "search_path", "statement_timeout"]) {
+    const value = params.get(name);
+    if (value !== null) settings[name] = value;
+  }
+  const pattern = /(?:-c\s*|--)([\w.]+)=((?:\\.|\S)*)/g;
+  for (const [, name, value] of (params.get("options") || "").matchAll(
+    pattern,
+  )) {
+    settings[name.replace(/-/g, "_")] = value.replace(/\\(.)/g, "$1");
+  }
+  return settings;
+}
+
+// libpq connection parameters, they configure the client and aren't settings
+const clientParameters = new Set([
+  "host",
+  "hostaddr",
+  "port",
+  "dbname",
+  "user",
+  "password",
+  "passfile",
+  "service",
+  "connect_timeout",
+  "keepalives",
+  "keepalives_idle",
+  "keepalives_interval",
+  "keepalives_count",
+  "tcp_user_timeout",
+  "replication",
+  "target_session_attrs",
+  "load_balance_hosts",
+  "require_auth",
+  "channel_binding",
+  "sslmode",
+  "sslnegotiation",
+  "sslcompression",
+  "sslcert",
+  "sslkey",
+  "sslpassword",
+  "sslcertmode",
+  "sslrootcert",
+  "sslcrl",
+  "sslcrldir",
+  "sslsni",
+  "requiressl",
+  "ssl_min_protocol_version",
+  "ssl_max_protocol_version",
+  "min_protocol_version",
+  "max_protocol_version",
+  "gssencmode",
+  "gsslib",
+  "gssdelegation",
+  "krbsrvname",
+  "fallback_application_name",
+]);
+
+// Statements postgres won't run in a transaction block, they are sent
+// without the settings
+function outsideTransaction(query: string) {
+  return /^(?:vacuum|alter\s+system|(?:create|drop)\s+(?:database|tablespace)|(?:create|alter|drop)\s+subscription|(?:create\s+(?:unique\s+)?|drop\s+)index\s+concurrently|reindex\s+(?:database|system)|reindex\b[^;]*\bconcurrently)\b/i.test(
+    stripComments(query),
+  );
+}
+
+function settingsStatement(
+  settings: Record<string, string>,
+): Payload | undefined {
+  const names = Object.keys(settings);
+  if (!names.length) return undefined;
+  return {
+    query:
+      "select " +
+      names
+        .map((_, i) => `set_config($${i * 2 + 1}, $${i * 2 + 2}, true)`)
+        .join(", "),
+    params: names.flatMap((name) => [name, settings[name]]),
+  };
+}
+
 function parseUrl(url: string) {
   if (!url || typeof url !== "string")
     return { url: { searchParams: new Map() } };
@@ -466,70 +1647,6 @@ function parseUrl(url: string) {
     multihost: host.indexOf(",") > -1 && host,
   };
 }
-const arrayParserState = {
-  i: 0,
-  p: null,
-  char: null,
-  str: "",
-  quoted: false,
-  last: 0,
-};
-
-const arrayParser = function arrayParser(
-  x: any,
-  parser: any,
-  typarray: number,
-) {
-  arrayParserState.i = arrayParserState.last = 0;
-  return arrayParserLoop(arrayParserState, x, parser, typarray);
-};
-
-function arrayParserLoop(
-  s: typeof arrayParserState,
-  x: any,
-  parser: any,
-  typarray: number,
-) {
-  const xs: any[] = [];
-  // Only _box (1020) has the ';' delimiter for arrays, all other types use the ',' delimiter
-  const delimiter = typarray === 1020 ? ";" : ",";
-  for (; s.i < x.length; s.i++) {
-    s.char = x[s.i];
-    if (s.quoted) {
-      if (s.char === "\\") {
-        s.str += x[++s.i];
-      } else if (s.char === '"') {
-        xs.push(parser ? parser(s.str) : s.str);
-        s.str = "";
-        s.quoted = x[s.i + 1] === '"';
-        s.last = s.i + 2;
-      } else {
-        s.str += s.char;
-      }
-    } else if (s.char === '"') {
-      s.quoted = true;
-    } else if (s.char === "{") {
-      s.last = ++s.i;
-      xs.push(arrayParserLoop(s, x, parser, typarray));
-    } else if (s.char === "}") {
-      s.quoted = false;
-      s.last < s.i &&
-        xs.push(parser ? parser(x.slice(s.last, s.i)) : x.slice(s.last, s.i));
-      s.last = s.i + 1;
-      break;
-    } else if (s.char === delimiter && s.p !== "}" && s.p !== '"') {
-      xs.push(parser ? parser(x.slice(s.last, s.i)) : x.slice(s.last, s.i));
-      s.last = s.i + 1;
-    }
-    s.p = s.char;
-  }
-  s.last < s.i &&
-    xs.push(
-      parser ? parser(x.slice(s.last, s.i + 1)) : x.slice(s.last, s.i + 1),
-    );
-  return xs;
-}
-
 function values(first, rest, parameters, types, options) {
   const multi = Array.isArray(first[0]);
   const columns = rest.length
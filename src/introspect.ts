@@ -0,0 +1,190 @@
+import type { SQL } from "./index";
+import { createTypeRegistry, type TypeDefinition } from "./types";
+
+export interface ColumnInfo {
+  name: string;
+  type: number; // oid
+  typeName: string;
+  element?: number; // oid of the elements of an array column
+  nullable: boolean;
+  hasDefault: boolean;
+}
+
+export interface TableInfo {
+  schema: string;
+  name: string;
+  kind: "table" | "view" | "materialized view";
+  columns: ColumnInfo[];
+}
+
+export interface EnumInfo {
+  schema: string;
+  name: string;
+  oid: number;
+  arrayOid: number; // register it in the `types` option to parse arrays of the enum
+  values: string[];
+}
+
+export interface SchemaInfo {
+  tables: TableInfo[];
+  enums: EnumInfo[];
+}
+
+export interface IntrospectOptions {
+  schemas?: string[]; // "public" by default
+}
+
+const kinds = {
+  r: "table",
+  p: "table",
+  v: "view",
+  m: "materialized view",
+} as const;
+
+export async function introspect(
+  sql: SQL,
+  o: IntrospectOptions = {},
+): Promise<SchemaInfo> {
+  const schemas = sql.typed(o.schemas || ["public"], 1009);
+  const columns = await sql`
+    select n.nspname, c.relname, c.relkind, a.attname, a.atttypid, t.typname,
+      case when t.typcategory = 'A' then t.typelem end, not a.attnotnull, a.atthasdef
+    from pg_class c
+    join pg_namespace n on n.oid = c.relnamespace
+    join pg_attribute a on a.attrelid = c.oid and a.attnum > 0 and not a.attisdropped
+    join pg_type t on t.oid = a.atttypid
+    where c.relkind in ('r', 'p', 'v', 'm') and n.nspname::text = any(${schemas})
+    order by n.nspname, c.relname, a.attnum
+  `.values();
+  const enums = await sql`
+    select n.nspname, t.typname, t.oid, t.typarray,
+      array_agg(e.enumlabel::text order by e.enumsortorder)
+    from pg_type t
+    join pg_enum e on e.enumtypid = t.oid
+    join pg_namespace n on n.oid = t.typnamespace
+    where n.nspname::text = any(${schemas})
+    group by n.nspname, t.typname, t.oid, t.typarray
+    order by n.nspname, t.typname
+  `.values();
+
+  const tables: TableInfo[] = [];
+  for (const [
+    schema,
+    name,
+    kind,
+    column,
+    type,
+    typeName,
+    element,
+    nullable,
+    hasDefault,
+  ] of columns) {
+    let table = tables[tables.length - 1];
+    if (!table || table.schema !== schema || table.name !== name) {
+      tables.push((table = { schema, name, kind: kinds[kind], columns: [] }));
+    }
+    table.columns.push({
+      name: column,
+      type: +type,
+      typeName,
+      element: element ? +element : undefined,
+      nullable,
+      hasDefault,
+    });
+  }
+  return {
+    tables,
+    enums: enums.map(([schema, name, oid, arrayOid, values]) => ({
+      schema,
+      name,
+      oid: +oid,
+      arrayOid: +arrayOid,
+      values,
+    })),
+  };
+}
+
+// TypeScript types of the values the client parses, anything else is a string
+const tsTypes: Record<number, string> = {
+  16: "boolean",
+  17: "Buffer",
+  20: "bigint",
+  21: "number",
+  23: "number",
+  26: "number",
+  700: "number",
+  701: "number",
+  114: "unknown",
+  3802: "unknown",
+  1082: "Date",
+  1114: "Date",
+  1184: "Date",
+  600: "Point",
+  603: "Box",
+  718: "Circle",
+  650: "Cidr",
+  869: "Inet",
+  3904: "Range<number>",
+  3926: "Range<bigint>",
+  3906: "Range<string>",
+  3908: "Range<Date>",
+  3910: "Range<Date>",
+  3912: "Range<Date>",
+};
+
+export interface GenerateOptions {
+  column?: (name: string) => string; // eg. toCamel when the client transforms columns
+  importFrom?: string; // module of the value classes
+  types?: Record<string, TypeDefinition>; // the `types` option of the client
+}
+
+// Renders an interface per table and view and a union type per enum
+export function generateTypes(schema: SchemaInfo, o: GenerateOptions = {}) {
+  const names = new Map(schema.enums.map((x) => [x.oid, typeName(x)]));
+  const registry = createTypeRegistry(o.types);
+  const used = new Set<string>();
+  const tsType = (oid: number) => {
+    const type = names.get(oid) || tsTypes[oid] || "string";
+    const match = type.match(/^(Point|Box|Circle|Cidr|Inet|Range)\b/);
+    if (match) used.add(match[1]);
+    return type;
+  };
+  const enums = schema.enums.map(
+    (x) =>
+      `export type ${typeName(x)} = ${x.values.map((v) => JSON.stringify(v)).join(" | ") || "never"};`,
+  );
+  const tables = schema.tables.map((table) => {
+    const columns = table.columns.map((column) => {
+      // the client only parses arrays of the types it knows, others are strings
+      const type = !column.element
+        ? tsType(column.type)
+        : registry.elements[column.type]
+          ? `${tsType(column.element)}[]`
+          : "string";
+      const name = o.column ? o.column(column.name) : column.name;
+      return `  ${key(name)}: ${type}${column.nullable ? " | null" : ""};`;
+    });
+    return `export interface ${typeName(table)} {\n${columns.join("\n")}\n}`;
+  });
+  const imports = used.size
+    ? `import type { ${[...used].sort().join(", ")} } from "${o.importFrom || "@nicksrandall/neon-postgres"}";\n\n`
+    : "";
+  return imports + [...enums, ...tables].join("\n\n") + "\n";
+}
+
+function typeName(x: { schema: string; name: string }) {
+  return pascalCase((x.schema === "public" ? "" : x.schema + "_") + x.name);
+}
+
+// unlike toPascal, any character outside [A-Za-z0-9] separates words
+function pascalCase(x: string) {
+  const name = x
+    .split(/[^A-Za-z0-9]+/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join("");
+  return /^\d/.test(name) ? "_" + name : name;
+}
+
+function key(x: string) {
+  return /^[A-Za-z_$][\w$]*$/.test(x) ? x : JSON.stringify(x);
+}
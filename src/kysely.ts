@@ -0,0 +1,135 @@
+import {
+  CompiledQuery,
+  PostgresAdapter,
+  PostgresIntrospector,
+  PostgresQueryCompiler,
+} from "kysely";
+import type {
+  DatabaseConnection,
+  Dialect,
+  Driver,
+  Kysely,
+  QueryResult,
+  TransactionSettings,
+} from "kysely";
+import { pgAdapter } from "./adapter";
+import type { IsolationLevel, SQL, TransactionSQL } from "./index";
+
+// Kysely over sql-over-http. Queries are stateless, transactions are
+// interactive `sql.begin` transactions and need its websocket or tcp transport.
+export class NeonDialect implements Dialect {
+  sql: SQL;
+  constructor(sql: SQL) {
+    this.sql = sql;
+  }
+  createAdapter() {
+    return new PostgresAdapter();
+  }
+  createDriver() {
+    return new NeonDriver(this.sql);
+  }
+  createQueryCompiler() {
+    return new PostgresQueryCompiler();
+  }
+  createIntrospector(db: Kysely<any>) {
+    return new PostgresIntrospector(db);
+  }
+}
+
+class NeonDriver implements Driver {
+  sql: SQL;
+  constructor(sql: SQL) {
+    this.sql = sql;
+  }
+  async init() {}
+  async acquireConnection() {
+    return new NeonConnection(this.sql);
+  }
+  async beginTransaction(c: NeonConnection, settings: TransactionSettings) {
+    await c.begin(settings);
+  }
+  async commitTransaction(c: NeonConnection) {
+    await c.end();
+  }
+  async rollbackTransaction(c: NeonConnection) {
+    await c.end(new Rollback());
+  }
+  async savepoint(c: NeonConnection, name: string) {
+    await c.executeQuery(CompiledQuery.raw("savepoint " + quote(name)));
+  }
+  async rollbackToSavepoint(c: NeonConnection, name: string) {
+    await c.executeQuery(
+      CompiledQuery.raw("rollback to savepoint " + quote(name)),
+    );
+  }
+  async releaseSavepoint(c: NeonConnection, name: string) {
+    await c.executeQuery(CompiledQuery.raw("release savepoint " + quote(name)));
+  }
+  async releaseConnection() {}
+  async destroy() {}
+}
+
+class Rollback extends Error {}
+
+class NeonConnection implements DatabaseConnection {
+  sql: SQL;
+  transaction?: {
+    sql: TransactionSQL;
+    finish: (rollback?: Rollback) => void;
+    done: Promise<unknown>;
+  };
+  constructor(sql: SQL) {
+    this.sql = sql;
+  }
+  async executeQuery<R>(compiled: CompiledQuery): Promise<QueryResult<R>> {
+    const result = await pgAdapter(
+      this.transaction ? this.transaction.sql : this.sql,
+    ).query<R>(compiled.sql, compiled.parameters as unknown[]);
+    return {
+      rows: result.rows,
+      numAffectedRows: /^(INSERT|UPDATE|DELETE|MERGE)$/.test(result.command)
+        ? BigInt(result.rowCount)
+        : undefined,
+    };
+  }
+  async *streamQuery<R>(): AsyncIterableIterator<QueryResult<R>> {
+    throw new Error("Streaming queries isn't supported");
+  }
+  // The transaction stays open until `end` settles the promise its callback
+  // returned, the body runs through the `sql` it was given meanwhile
+  async begin(settings: TransactionSettings) {
+    let started!: (sql: TransactionSQL) => void;
+    let finish!: (rollback?: Rollback) => void;
+    const tx = new Promise<TransactionSQL>((resolve) => (started = resolve));
+    const finished = new Promise<void>((resolve, reject) => {
+      finish = (rollback) => (rollback ? reject(rollback) : resolve());
+    });
+    const done = this.sql.begin(
+      (sql) => {
+        started(sql);
+        return finished;
+      },
+      {
+        isolationLevel: settings.isolationLevel?.replace(
+          /(?:^| )(\w)/g,
+          (_, x) => x.toUpperCase(),
+        ) as IsolationLevel | undefined,
+        readOnly: settings.accessMode === "read only",
+      },
+    );
+    const sql = await Promise.race([tx, done as Promise<never>]);
+    this.transaction = { sql, finish, done };
+  }
+  async end(rollback?: Rollback) {
+    const transaction = this.transaction!;
+    this.transaction = undefined;
+    transaction.finish(rollback);
+    await transaction.done.catch((error) => {
+      if (error !== rollback) throw error;
+    });
+  }
+}
+
+function quote(name: string) {
+  return '"' + name.replace(/"/g, '""') + '"';
+}
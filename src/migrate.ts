@@ -0,0 +1,266 @@
+import type { Payload, PendingQuery, SQL } from "./index";
+import { stripComments } from "./statement";
+
+// Migrations applied with `sql.begin` batches, one per migration, so each of
+// them is atomic. A batch starts with an advisory lock, concurrent runs wait
+// for each other and skip what the other one applied.
+
+export interface Migration {
+  version: string; // applied in ascending order
+  name: string;
+  up: string; // sql, may hold several statements
+  down?: string;
+}
+
+export interface MigrateOptions {
+  dir?: string; // <version>_<name>.sql, or .up.sql with an optional .down.sql
+  migrations?: Migration[];
+  table?: string; // applied versions, created when missing
+  dryRun?: boolean; // return the statements without running them
+  steps?: number; // migrations to revert with `rollback`, 1 by default
+}
+
+export interface MigrationRun extends Migration {
+  statements: Payload[]; // what was (or, on a dry run, would be) sent
+}
+
+export interface MigrationStatus extends Migration {
+  applied: boolean;
+  appliedAt?: Date;
+  changed: boolean; // the applied migration doesn't match its file anymore
+}
+
+export async function migrate(sql: SQL, o: MigrateOptions = {}) {
+  const migrations = await loadMigrations(o);
+  const table = quote(o.table || "schema_migrations");
+  if (!o.dryRun) await ensureTable(sql, table);
+  const applied = await appliedVersions(sql, table);
+  verify(migrations, applied, await checksums(migrations));
+  const runs: MigrationRun[] = [];
+  for (const migration of migrations) {
+    if (applied.has(migration.version)) continue;
+    const queries = [
+      lock(sql, table),
+      ...splitStatements(migration.up).map((x) => sql.unsafe(x)),
+      sql`insert into ${sql.unsafe(table)} (version, name, checksum) values (${migration.version}, ${migration.name}, ${await checksum(migration.up)})`,
+    ];
+    runs.push({ ...migration, statements: queries.map((x) => x.prepare()) });
+    if (!o.dryRun) await apply(sql, table, migration, queries, true);
+  }
+  return runs;
+}
+
+export async function rollback(sql: SQL, o: MigrateOptions = {}) {
+  const migrations = await loadMigrations(o);
+  const table = quote(o.table || "schema_migrations");
+  const applied = await appliedVersions(sql, table);
+  const runs: MigrationRun[] = [];
+  const targets = migrations
+    .filter((x) => applied.has(x.version))
+    .reverse()
+    .slice(0, o.steps ?? 1);
+  for (const migration of targets) {
+    if (migration.down === undefined) {
+      throw new Error(`Migration ${migration.version} has no down migration`);
+    }
+    const queries = [
+      lock(sql, table),
+      ...splitStatements(migration.down).map((x) => sql.unsafe(x)),
+      sql`delete from ${sql.unsafe(table)} where version = ${migration.version}`,
+    ];
+    runs.push({ ...migration, statements: queries.map((x) => x.prepare()) });
+    if (!o.dryRun) await apply(sql, table, migration, queries, false);
+  }
+  return runs;
+}
+
+export async function status(
+  sql: SQL,
+  o: MigrateOptions = {},
+): Promise<MigrationStatus[]> {
+  const migrations = await loadMigrations(o);
+  const applied = await appliedVersions(
+    sql,
+    quote(o.table || "schema_migrations"),
+  );
+  const sums = await checksums(migrations);
+  return migrations.map((x, i) => {
+    const row = applied.get(x.version);
+    return {
+      ...x,
+      applied: !!row,
+      appliedAt: row?.appliedAt,
+      changed: !!row && row.checksum !== sums[i],
+    };
+  });
+}
+
+// Writes empty up and down files named after the current time
+export async function createMigration(dir: string, name: string) {
+  const { writeFile, mkdir } = await import("node:fs/promises");
+  const version = new Date().toISOString().replace(/\D/g, "").slice(0, 14);
+  const base = `${dir}/${version}_${name.replace(/\W+/g, "_")}`;
+  await mkdir(dir, { recursive: true });
+  await writeFile(base + ".up.sql", "");
+  await writeFile(base + ".down.sql", "");
+  return [base + ".up.sql", base + ".down.sql"];
+}
+
+export async function loadMigrations(o: MigrateOptions) {
+  const migrations = o.migrations ? o.migrations.slice() : [];
+  if (o.dir) {
+    const { readdir, readFile } = await import("node:fs/promises");
+    const files = await readdir(o.dir);
+    for (const file of files) {
+      const match = file.match(/^(\d+)_(.+?)(?:\.(up|down))?\.sql$/);
+      // down files are read along with their up file
+      if (!match || match[3] === "down") continue;
+      const down = `${match[1]}_${match[2]}.down.sql`;
+      migrations.push({
+        version: match[1],
+        name: match[2],
+        up: await readFile(`${o.dir}/${file}`, "utf8"),
+        down:
+          match[3] && files.includes(down)
+            ? await readFile(`${o.dir}/${down}`, "utf8")
+            : undefined,
+      });
+    }
+  }
+  migrations.sort((a, b) =>
+    a.version.padStart(32, "0") < b.version.padStart(32, "0") ? -1 : 1,
+  );
+  migrations.forEach((x, i) => {
+    if (i && migrations[i - 1].version === x.version) {
+      throw new Error(`Duplicate migration version ${x.version}`);
+    }
+  });
+  return migrations;
+}
+
+// Splits sql text into statements, semicolons in strings, quoted
+// identifiers, comments and dollar quoted bodies don't count
+export function splitStatements(text: string) {
+  const statements: string[] = [];
+  let start = 0;
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+    if (char === "'" || char === '"') {
+      const escapes = char === "'" && /[eE]/.test(text[i - 1] || "");
+      i++;
+      while (i < text.length) {
+        if (escapes && text[i] === "\\") i++;
+        else if (text[i] === char && text[i + 1] === char) i++;
+        else if (text[i] === char) break;
+        i++;
+      }
+      i++;
+    } else if (rest.startsWith("--")) {
+      const end = text.indexOf("\n", i);
+      i = end === -1 ? text.length : end;
+    } else if (rest.startsWith("/*")) {
+      let depth = 0;
+      do {
+        if (text.startsWith("/*", i)) {
+          depth++;
+          i += 2;
+        } else if (text.startsWith("*/", i)) {
+          depth--;
+          i += 2;
+        } else {
+          i++;
+        }
+      } while (depth && i < text.length);
+    } else if (char === "$" && /^\$(?:[A-Za-z_]\w*)?\$/.test(rest)) {
+      const tag = rest.match(/^\$(?:[A-Za-z_]\w*)?\$/)![0];
+      const end = text.indexOf(tag, i + tag.length);
+      i = end === -1 ? text.length : end + tag.length;
+    } else if (char === ";") {
+      statements.push(text.slice(start, i));
+      start = ++i;
+    } else {
+      i++;
+    }
+  }
+  statements.push(text.slice(start));
+  return statements.filter((x) => stripComments(x).length).map((x) => x.trim());
+}
+
+async function apply(
+  sql: SQL,
+  table: string,
+  migration: Migration,
+  queries: PendingQuery[],
+  up: boolean,
+) {
+  try {
+    await sql.begin(queries);
+  } catch (error) {
+    // another run applied (or reverted) it while we waited for the lock
+    const applied = await appliedVersions(sql, table);
+    if (applied.has(migration.version) === up) return;
+    throw error;
+  }
+}
+
+async function ensureTable(sql: SQL, table: string) {
+  await sql.unsafe(
+    `create table if not exists ${table} (version text primary key, name text not null, checksum text not null, applied_at timestamptz not null default now())`,
+  );
+}
+
+async function appliedVersions(sql: SQL, table: string) {
+  const applied = new Map<string, { checksum: string; appliedAt: Date }>();
+  const [[exists]] =
+    await sql`select to_regclass(${table}) is not null`.values();
+  if (!exists) return applied;
+  const rows = await sql
+    .unsafe(`select version, checksum, applied_at from ${table}`)
+    .values();
+  for (const [version, checksum, appliedAt] of rows) {
+    applied.set(version, { checksum, appliedAt });
+  }
+  return applied;
+}
+
+function verify(
+  migrations: Migration[],
+  applied: Map<string, { checksum: string }>,
+  sums: string[],
+) {
+  migrations.forEach((x, i) => {
+    const row = applied.get(x.version);
+    if (row && row.checksum !== sums[i]) {
+      throw new Error(
+        `Migration ${x.version}_${x.name} was changed after it was applied`,
+      );
+    }
+  });
+}
+
+function lock(sql: SQL, table: string) {
+  return sql`select pg_advisory_xact_lock(hashtext(${"migrate " + table}))`;
+}
+
+function checksums(migrations: Migration[]) {
+  return Promise.all(migrations.map((x) => checksum(x.up)));
+}
+
+async function checksum(text: string) {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text),
+  );
+  return Array.from(new Uint8Array(digest), (x) =>
+    x.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+function quote(table: string) {
+  return table
+    .split(".")
+    .map((x) => '"' + x.replace(/"/g, '""') + '"')
+    .join(".");
+}
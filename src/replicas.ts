@@ -0,0 +1,60 @@
+export interface ReplicaOptions {
+  urls: string[]; // connection strings of the read replicas
+  routing?: "round-robin" | "latency";
+  cooldown?: number; // ms a failed replica is skipped before it is tried again
+}
+
+export function parseReplicas(
+  x: string[] | ReplicaOptions | undefined,
+): Required<ReplicaOptions> {
+  const o = Array.isArray(x) ? { urls: x } : x || { urls: [] };
+  return {
+    urls: o.urls,
+    routing: o.routing || "round-robin",
+    cooldown: o.cooldown ?? 30000,
+  };
+}
+
+export interface Host {
+  connectionString: string;
+  url: { hostname?: string; port?: string; pathname?: string };
+  latency: number; // moving average of response times, 0 until measured
+  failedAt: number;
+}
+
+export function createHost(connectionString: string, url: Host["url"]): Host {
+  return { connectionString, url, latency: 0, failedAt: -Infinity };
+}
+
+// Picks the host of each request. Reads go to a healthy replica, everything
+// else (and reads when no replica is healthy) to the primary.
+export function createRouter(
+  primary: Host,
+  replicas: Host[],
+  o: Required<ReplicaOptions>,
+) {
+  let next = 0;
+  return {
+    primary,
+    // `tried` are the replicas that already failed the current query
+    pick(replica: boolean, tried?: Set<Host>) {
+      const now = Date.now();
+      const healthy = replica
+        ? replicas.filter(
+            (x) => now - x.failedAt >= o.cooldown && !tried?.has(x),
+          )
+        : [];
+      if (!healthy.length) return primary;
+      // unmeasured replicas come first so they get a latency
+      return o.routing === "latency"
+        ? healthy.reduce((a, b) => (b.latency < a.latency ? b : a))
+        : healthy[next++ % healthy.length];
+    },
+    succeeded(host: Host, ms: number) {
+      host.latency = host.latency ? host.latency * 0.8 + ms * 0.2 : ms;
+    },
+    failed(host: Host) {
+      if (host !== primary) host.failedAt = Date.now();
+    },
+  };
+}
@@ -0,0 +1,104 @@
+import { HttpError, NetworkError, PostgresError } from "./errors";
+import { stripComments } from "./statement";
+
+export interface RetryOptions {
+  retries?: number; // attempts after the first one
+  minDelay?: number; // ms before the first retry
+  maxDelay?: number; // upper bound of a single delay
+  factor?: number; // growth of the delay between attempts
+  jitter?: boolean; // randomize delays so clients don't retry in lockstep
+}
+
+export function parseRetry(
+  x: RetryOptions | boolean | undefined,
+): Required<RetryOptions> {
+  const o = typeof x === "object" ? x : {};
+  return {
+    retries: x ? (o.retries ?? 3) : 0,
+    minDelay: o.minDelay ?? 100,
+    maxDelay: o.maxDelay ?? 2000,
+    factor: o.factor ?? 2,
+    jitter: o.jitter ?? true,
+  };
+}
+
+export function backoff(attempt: number, retry: Required<RetryOptions>) {
+  const delay = Math.min(
+    retry.maxDelay,
+    retry.minDelay * Math.pow(retry.factor, attempt),
+  );
+  return retry.jitter ? Math.random() * delay : delay;
+}
+
+// SQLSTATEs raised while a compute is starting, restarting or overloaded
+const transientCodes = /^(08...|57P01|57P02|57P03|53300)$/;
+const coldStart = /compute|cold start|terminating connection/i;
+
+export function isTransient(error: unknown) {
+  return (
+    error instanceof NetworkError ||
+    (error instanceof HttpError && error.status >= 500) ||
+    (error instanceof PostgresError &&
+      (transientCodes.test(error.code || "") ||
+        (error.code === "XX000" && coldStart.test(error.message))))
+  );
+}
+
+// selects can still write or lock rows: data modifying ctes, select into,
+// for update/share and sequences
+const writes =
+  /\b(insert|update|delete|merge|into|for\s+(key\s+)?share|nextval|setval)\b/i;
+
+// Only statements that can't write are safe to send twice
+export function isReadOnly(query: string) {
+  const x = stripComments(query);
+  return (
+    (/^(select|show|values|table|with)\b/i.test(x) && !writes.test(x)) ||
+    (/^explain\b/i.test(x) && !/\banalyze\b/i.test(x))
+  );
+}
+
+export function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", abort);
+    function done() {
+      signal?.removeEventListener("abort", abort);
+      resolve();
+    }
+    function abort() {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    }
+  });
+}
+
+// Combines abort signals and an optional timeout into a single signal
+export function deadline(
+  signals: (AbortSignal | null | undefined)[],
+  timeout: number | undefined,
+  onTimeout: () => Error,
+) {
+  const controller = new AbortController();
+  const abort = (reason: unknown) =>
+    !controller.signal.aborted && controller.abort(reason);
+  const listeners = signals.filter(Boolean).map((signal) => {
+    const listener = () => abort(signal!.reason);
+    signal!.aborted
+      ? listener()
+      : signal!.addEventListener("abort", listener, { once: true });
+    return () => signal!.removeEventListener("abort", listener);
+  });
+  const timer =
+    timeout !== undefined && timeout > 0
+      ? setTimeout(() => abort(onTimeout()), timeout)
+      : undefined;
+  return {
+    signal: controller.signal,
+    clear() {
+      clearTimeout(timer);
+      listeners.forEach((remove) => remove());
+    },
+  };
+}
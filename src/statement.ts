@@ -0,0 +1,5 @@
+// The text of a statement without comments or surrounding whitespace, what
+// the checks classifying statements by their first keywords look at
+export function stripComments(query: string) {
+  return query.replace(/--.*$|\/\*[\s\S]*?\*\//gm, "").trim();
+}
@@ -0,0 +1,141 @@
+import { UnmatchedQueryError, type PostgresErrorFields } from "./errors";
+import type { Field, Payload, Result } from "./index";
+
+// Helpers for tests without a database, each of them builds a function to
+// pass as the `fetchFunction` option so results still go through the client.
+
+export interface MockQuery {
+  query: string | RegExp; // sql text, compared with collapsed whitespace
+  params?: unknown[]; // compared with the serialized params, eg. 1 matches "1"
+  result?: MockResult | ((payload: Payload) => MockResult);
+  error?: PostgresErrorFields; // answer with a postgres error instead
+  times?: number; // stop matching after this many queries
+}
+
+export interface MockResult {
+  command?: string;
+  rowCount?: number;
+  rows?: (string | null)[][];
+  fields?: Partial<Field>[]; // dataTypeID decides the parser, text by default
+}
+
+export { UnmatchedQueryError };
+
+type FetchFunction = (input: any, init?: any) => Promise<Response>;
+
+export interface MockFetch extends FetchFunction {
+  mock(query: MockQuery): MockFetch;
+  calls: Payload[];
+}
+
+export function mockFetch(...queries: MockQuery[]): MockFetch {
+  const mocks = queries.map((x) => ({ ...x, used: 0 }));
+  const handler = (async (_input: any, init: any) => {
+    const body = JSON.parse(init.body);
+    const payloads: Payload[] = body.queries || [body];
+    const results: Result[] = [];
+    for (const payload of payloads) {
+      handler.calls.push({ query: payload.query, params: payload.params });
+      const mock = mocks.find((x) => matches(x, payload));
+      if (!mock) throw new UnmatchedQueryError(payload);
+      mock.used++;
+      if (mock.error) return Response.json(mock.error, { status: 400 });
+      const result =
+        typeof mock.result === "function"
+          ? mock.result(payload)
+          : mock.result || {};
+      const rows = result.rows || [];
+      results.push({
+        command: result.command || "SELECT",
+        rowCount: result.rowCount ?? rows.length,
+        rows,
+        fields: (
+          result.fields || (rows[0] || []).map(() => ({ name: "?column?" }))
+        ).map((x) => ({
+          name: "",
+          tableID: 0,
+          columnID: 0,
+          dataTypeID: 25,
+          dataTypeSize: -1,
+          dataTypeModifier: -1,
+          format: "text",
+          ...x,
+        })),
+      });
+    }
+    return Response.json(body.queries ? { results } : results[0]);
+  }) as MockFetch;
+  handler.calls = [];
+  handler.mock = (query) => {
+    mocks.push({ ...query, used: 0 });
+    return handler;
+  };
+  return handler;
+}
+
+function matches(mock: MockQuery & { used: number }, payload: Payload) {
+  if (mock.times !== undefined && mock.used >= mock.times) return false;
+  const query = payload.query.replace(/\s+/g, " ").trim();
+  if (
+    typeof mock.query === "string"
+      ? mock.query.replace(/\s+/g, " ").trim() !== query
+      : !mock.query.test(query)
+  ) {
+    return false;
+  }
+  return (
+    !mock.params ||
+    (mock.params.length === payload.params.length &&
+      mock.params.every(
+        (x, i) => (x === null ? x : String(x)) === payload.params[i],
+      ))
+  );
+}
+
+export interface Exchange {
+  request: unknown; // the request body, without the connection string
+  status: number;
+  body: string;
+}
+
+// Sends requests to the real endpoint and saves every exchange to a json
+// fixture, once per exchange so an interrupted run keeps what it recorded.
+export function recordFetch(
+  path: string,
+  fetchFunction: FetchFunction = (input, init) => fetch(input, init),
+): FetchFunction {
+  const exchanges: Exchange[] = [];
+  return async (input, init) => {
+    const response = await fetchFunction(input, init);
+    const body = await response.text();
+    exchanges.push({
+      request: JSON.parse(init.body),
+      status: response.status,
+      body,
+    });
+    const { writeFile } = await import("node:fs/promises");
+    await writeFile(path, JSON.stringify(exchanges, null, 2));
+    return new Response(body, {
+      status: response.status,
+      headers: response.headers,
+    });
+  };
+}
+
+// Serves the exchanges of a fixture, each of them once, in the order they
+// were recorded among those with the same request.
+export function replayFetch(path: string): FetchFunction {
+  let exchanges: Promise<(Exchange & { used?: boolean })[]> | undefined;
+  return async (_input, init) => {
+    exchanges ??= import("node:fs/promises").then(async ({ readFile }) =>
+      JSON.parse(await readFile(path, "utf8")),
+    );
+    const request = JSON.stringify(JSON.parse(init.body));
+    const exchange = (await exchanges).find(
+      (x) => !x.used && JSON.stringify(x.request) === request,
+    );
+    if (!exchange) throw new UnmatchedQueryError(JSON.parse(request));
+    exchange.used = true;
+    return new Response(exchange.body, { status: exchange.status });
+  };
+}
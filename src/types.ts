@@ -0,0 +1,353 @@
+export interface TypeDefinition {
+  oid: number;
+  arrayOid?: number;
+  // sql name of the type, inferred parameters of named types are sent typed
+  // (or cast inline when the transport can't carry types)
+  name?: string;
+  parse?: (value: string) => any;
+  serialize?: (value: any) => string;
+  detect?: (value: any) => boolean; // used to infer the type of a parameter
+}
+
+export interface TypeRegistry {
+  parsers: Record<number, (value: string) => any>;
+  serializers: Record<number, (value: any) => string>;
+  arrays: Record<number, number>; // element oid -> array oid
+  elements: Record<number, number>; // array oid -> element oid
+  names: Record<number, string>;
+  casts: Set<number>; // types sent even when they were only inferred
+  detectors: TypeDefinition[];
+}
+
+import {
+  Box,
+  Cidr,
+  Circle,
+  Inet,
+  Point,
+  Range,
+  parseBox,
+  parseCidr,
+  parseCircle,
+  parseInet,
+  parsePoint,
+  parseRange,
+  serializeRange,
+} from "./values";
+
+const number = (x: string) => +x;
+const string = (x: any) => x.toString();
+const bound = (x: Range<any>) => x.lower ?? x.upper;
+const date = (x: string) => new Date(x);
+const json = (x: string) => JSON.parse(x);
+
+// Detectors are tried in order, so the catch-all json entries come last.
+export const types: Record<string, TypeDefinition> = {
+  bool: {
+    oid: 16,
+    arrayOid: 1000,
+    name: "bool",
+    parse: (x) => x === "t",
+    serialize: (x) => (x ? "t" : "f"),
+    detect: (x) => x === true || x === false,
+  },
+  bytea: {
+    oid: 17,
+    arrayOid: 1001,
+    name: "bytea",
+    parse: (x) => Buffer.from(x.slice(2), "hex"),
+    serialize: (x: Uint8Array) => "\\x" + Buffer.from(x).toString("hex"),
+    detect: (x) => x instanceof Uint8Array,
+  },
+  char: { oid: 18, arrayOid: 1002 },
+  name: { oid: 19, arrayOid: 1003 },
+  int2: { oid: 21, arrayOid: 1005, parse: number },
+  int4: {
+    oid: 23,
+    arrayOid: 1007,
+    name: "int4",
+    parse: number,
+    detect: (x) => Number.isInteger(x) && x >= -2147483648 && x <= 2147483647,
+  },
+  int8: {
+    oid: 20,
+    arrayOid: 1016,
+    name: "int8",
+    parse: (x) => BigInt(x),
+    serialize: (x) => x.toString(),
+    detect: (x) => typeof x === "bigint" || Number.isSafeInteger(x),
+  },
+  text: {
+    oid: 25,
+    arrayOid: 1009,
+    detect: (x) => typeof x === "string",
+  },
+  oid: { oid: 26, arrayOid: 1028, parse: number },
+  xml: { oid: 142, arrayOid: 143 },
+  float4: { oid: 700, arrayOid: 1021, parse: number },
+  float8: {
+    oid: 701,
+    arrayOid: 1022,
+    name: "float8",
+    parse: number,
+    detect: (x) => typeof x === "number",
+  },
+  money: { oid: 790, arrayOid: 791 },
+  bpchar: { oid: 1042, arrayOid: 1014 },
+  varchar: { oid: 1043, arrayOid: 1015 },
+  date: { oid: 1082, arrayOid: 1182, parse: date },
+  time: { oid: 1083, arrayOid: 1183 },
+  timestamp: { oid: 1114, arrayOid: 1115, parse: date },
+  timestamptz: {
+    oid: 1184,
+    arrayOid: 1185,
+    name: "timestamptz",
+    parse: date,
+    serialize: (x: Date) => x.toISOString(),
+    detect: (x) => x instanceof Date,
+  },
+  interval: { oid: 1186, arrayOid: 1187 },
+  timetz: { oid: 1266, arrayOid: 1270 },
+  bit: { oid: 1560, arrayOid: 1561 },
+  varbit: { oid: 1562, arrayOid: 1563 },
+  numeric: { oid: 1700, arrayOid: 1231 }, // kept as a string to avoid losing precision
+  uuid: { oid: 2950, arrayOid: 2951 },
+  point: {
+    oid: 600,
+    arrayOid: 1017,
+    name: "point",
+    parse: parsePoint,
+    serialize: string,
+    detect: (x) => x instanceof Point,
+  },
+  box: {
+    oid: 603,
+    arrayOid: 1020,
+    name: "box",
+    parse: parseBox,
+    serialize: string,
+    detect: (x) => x instanceof Box,
+  },
+  circle: {
+    oid: 718,
+    arrayOid: 719,
+    name: "circle",
+    parse: parseCircle,
+    serialize: string,
+    detect: (x) => x instanceof Circle,
+  },
+  cidr: {
+    oid: 650,
+    arrayOid: 651,
+    name: "cidr",
+    parse: parseCidr,
+    serialize: string,
+    detect: (x) => x instanceof Cidr,
+  },
+  inet: {
+    oid: 869,
+    arrayOid: 1041,
+    name: "inet",
+    parse: parseInet,
+    serialize: string,
+    detect: (x) => x instanceof Inet,
+  },
+  macaddr: { oid: 829, arrayOid: 1040 },
+  // Ranges are sent untyped since their subtype can't always be told from
+  // javascript (a range of dates may be a tsrange, tstzrange or daterange).
+  int4range: {
+    oid: 3904,
+    arrayOid: 3905,
+    parse: (x) => parseRange(x, number),
+    serialize: serializeRange,
+    detect: (x) => x instanceof Range && Number.isInteger(bound(x)),
+  },
+  int8range: {
+    oid: 3926,
+    arrayOid: 3927,
+    parse: (x) => parseRange(x, BigInt),
+    serialize: serializeRange,
+    detect: (x) => x instanceof Range && typeof bound(x) === "bigint",
+  },
+  numrange: {
+    oid: 3906,
+    arrayOid: 3907,
+    parse: (x) => parseRange(x),
+    serialize: serializeRange,
+    detect: (x) => x instanceof Range && typeof bound(x) === "number",
+  },
+  tsrange: {
+    oid: 3908,
+    arrayOid: 3909,
+    parse: (x) => parseRange(x, date),
+    serialize: serializeRange,
+  },
+  daterange: {
+    oid: 3912,
+    arrayOid: 3913,
+    parse: (x) => parseRange(x, date),
+    serialize: serializeRange,
+  },
+  tstzrange: {
+    oid: 3910,
+    arrayOid: 3911,
+    parse: (x) => parseRange(x, date),
+    serialize: serializeRange,
+    detect: (x) => x instanceof Range,
+  },
+  jsonb: {
+    oid: 3802,
+    arrayOid: 3807,
+    parse: json,
+    serialize: (x) => JSON.stringify(x),
+  },
+  json: {
+    oid: 114,
+    arrayOid: 199,
+    parse: json,
+    serialize: (x) => JSON.stringify(x),
+    detect: (x) => typeof x === "object",
+  },
+};
+
+export function createTypeRegistry(
+  custom: Record<string, TypeDefinition> = {},
+): TypeRegistry {
+  const registry: TypeRegistry = {
+    parsers: {},
+    serializers: {},
+    arrays: {},
+    elements: {},
+    names: {},
+    casts: new Set(),
+    detectors: [],
+  };
+  const builtins = Object.values(types);
+  for (const name in types) registry.names[types[name].oid] = name;
+  const byOid = new Map(builtins.map((x) => [x.oid, x]));
+  // custom types go first so they win detection and replace builtin parsers
+  const definitions = Object.values(custom)
+    .map((x): TypeDefinition => ({
+      arrayOid: byOid.get(x.oid)?.arrayOid,
+      ...x,
+    }))
+    .concat(builtins);
+
+  for (const x of definitions.slice().reverse()) {
+    x.parse
+      ? (registry.parsers[x.oid] = x.parse)
+      : delete registry.parsers[x.oid];
+    x.serialize
+      ? (registry.serializers[x.oid] = x.serialize)
+      : delete registry.serializers[x.oid];
+    if (x.arrayOid) {
+      registry.arrays[x.oid] = x.arrayOid;
+      registry.elements[x.arrayOid] = x.oid;
+    }
+    if (x.name) registry.names[x.oid] = x.name;
+    x.name ? registry.casts.add(x.oid) : registry.casts.delete(x.oid);
+  }
+  for (const arrayOid in registry.elements) {
+    const element = registry.elements[arrayOid];
+    const parser = registry.parsers[element];
+    registry.parsers[arrayOid] = (x) => arrayParser(x, parser, +arrayOid)[0];
+    if (registry.names[element])
+      registry.names[arrayOid] = registry.names[element] + "[]";
+    if (registry.casts.has(element)) registry.casts.add(+arrayOid);
+  }
+  registry.detectors = definitions.filter((x) => x.detect);
+  return registry;
+}
+
+// Encodes a (nested) array as a postgres array literal, the inverse of
+// arrayParser. Elements are always quoted so any string survives, and
+// null/undefined elements become NULL.
+export const arraySerializer = function arraySerializer(
+  xs: any[],
+  serializer: (x: any) => string | null,
+  typarray: number,
+): string {
+  const delimiter = typarray === 1020 ? ";" : ",";
+  return (
+    "{" +
+    xs
+      .map((x) => {
+        if (Array.isArray(x)) return arraySerializer(x, serializer, typarray);
+        const value = x === null || x === undefined ? null : serializer(x);
+        return value === null ? "NULL" : '"' + arrayEscape(value) + '"';
+      })
+      .join(delimiter) +
+    "}"
+  );
+};
+
+function arrayEscape(x: string) {
+  return x.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+const arrayParserState = {
+  i: 0,
+  p: null,
+  char: null,
+  str: "",
+  quoted: false,
+  last: 0,
+};
+
+export const arrayParser = function arrayParser(
+  x: any,
+  parser: any,
+  typarray: number,
+) {
+  arrayParserState.i = arrayParserState.last = 0;
+  arrayParserState.p = arrayParserState.char = null;
+  arrayParserState.str = "";
+  arrayParserState.quoted = false;
+  return arrayParserLoop(arrayParserState, x, parser, typarray);
+};
+
+function arrayParserLoop(
+  s: typeof arrayParserState,
+  x: any,
+  parser: any,
+  typarray: number,
+) {
+  const xs: any[] = [];
+  // Only _box (1020) has the ';' delimiter for arrays, all other types use the ',' delimiter
+  const delimiter = typarray === 1020 ? ";" : ",";
+  for (; s.i < x.length; s.i++) {
+    s.char = x[s.i];
+    if (s.quoted) {
+      if (s.char === "\\") {
+        s.str += x[++s.i];
+      } else if (s.char === '"') {
+        xs.push(parser ? parser(s.str) : s.str);
+        s.str = "";
+        s.quoted = x[s.i + 1] === '"';
+        s.last = s.i + 2;
+      } else {
+        s.str += s.char;
+      }
+    } else if (s.char === '"') {
+      s.quoted = true;
+    } else if (s.char === "{") {
+      s.last = ++s.i;
+      xs.push(arrayParserLoop(s, x, parser, typarray));
+    } else if (s.char === "}") {
+      s.quoted = false;
+      s.last < s.i && xs.push(unquoted(x.slice(s.last, s.i), parser));
+      s.last = s.i + 1;
+      break;
+    } else if (s.char === delimiter && s.p !== "}" && s.p !== '"') {
+      xs.push(unquoted(x.slice(s.last, s.i), parser));
+      s.last = s.i + 1;
+    }
+    s.p = s.char;
+  }
+  s.last < s.i && xs.push(unquoted(x.slice(s.last, s.i + 1), parser));
+  return xs;
+}
+
+function unquoted(x: string, parser: any) {
+  return x === "NULL" ? null : parser ? parser(x) : x;
+}
@@ -0,0 +1,179 @@
+export type RangeBounds = "[)" | "[]" | "(]" | "()";
+
+// A range of any subtype, a null bound is unbounded
+export class Range<T> {
+  lower: T | null;
+  upper: T | null;
+  lowerInclusive: boolean;
+  upperInclusive: boolean;
+  empty: boolean;
+  constructor(lower: T | null, upper: T | null, bounds: RangeBounds = "[)") {
+    this.lower = lower;
+    this.upper = upper;
+    this.lowerInclusive = bounds[0] === "[";
+    this.upperInclusive = bounds[1] === "]";
+    this.empty = false;
+  }
+  static empty<T>() {
+    const range = new Range<T>(null, null, "()");
+    range.empty = true;
+    return range;
+  }
+  toString() {
+    return serializeRange(this);
+  }
+}
+
+export class Point {
+  x: number;
+  y: number;
+  constructor(x: number, y: number) {
+    this.x = x;
+    this.y = y;
+  }
+  toString() {
+    return `(${this.x},${this.y})`;
+  }
+}
+
+// postgres stores the upper right corner first
+export class Box {
+  high: Point;
+  low: Point;
+  constructor(high: Point, low: Point) {
+    this.high = high;
+    this.low = low;
+  }
+  toString() {
+    return `${this.high},${this.low}`;
+  }
+}
+
+export class Circle {
+  center: Point;
+  radius: number;
+  constructor(center: Point, radius: number) {
+    this.center = center;
+    this.radius = radius;
+  }
+  toString() {
+    return `<${this.center},${this.radius}>`;
+  }
+}
+
+// A network (cidr), the address has no bits set to the right of the prefix
+export class Cidr {
+  address: string;
+  prefix: number;
+  constructor(address: string, prefix: number) {
+    this.address = address;
+    this.prefix = prefix;
+  }
+  toString() {
+    return `${this.address}/${this.prefix}`;
+  }
+}
+
+// A host address with an optional subnet (inet)
+export class Inet {
+  address: string;
+  prefix: number;
+  constructor(address: string, prefix = address.includes(":") ? 128 : 32) {
+    this.address = address;
+    this.prefix = prefix;
+  }
+  toString() {
+    return `${this.address}/${this.prefix}`;
+  }
+}
+
+export function parseRange<T>(
+  x: string,
+  parse: (x: string) => T = (x) => x as T,
+): Range<T> {
+  if (x === "empty") return Range.empty();
+  const [lower, upper] = rangeBounds(x.slice(1, -1));
+  return new Range(
+    lower === null ? null : parse(lower),
+    upper === null ? null : parse(upper),
+    (x[0] + x[x.length - 1]) as RangeBounds,
+  );
+}
+
+// Splits the inside of a range literal, an empty unquoted bound is unbounded
+function rangeBounds(x: string) {
+  const bounds: (string | null)[] = [];
+  let str = "";
+  let quoted = false;
+  let wasQuoted = false;
+  for (let i = 0; i < x.length; i++) {
+    const char = x[i];
+    if (quoted) {
+      if (char === "\\") {
+        str += x[++i];
+      } else if (char === '"' && x[i + 1] === '"') {
+        str += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        str += char;
+      }
+    } else if (char === '"') {
+      quoted = wasQuoted = true;
+    } else if (char === ",") {
+      bounds.push(str || wasQuoted ? str : null);
+      str = "";
+      wasQuoted = false;
+    } else {
+      str += char;
+    }
+  }
+  bounds.push(str || wasQuoted ? str : null);
+  return bounds;
+}
+
+export function serializeRange(x: Range<any>) {
+  if (x.empty) return "empty";
+  const bound = (x: any) =>
+    x === null || x === undefined
+      ? ""
+      : '"' +
+        (x instanceof Date ? x.toISOString() : String(x)).replace(
+          /["\\]/g,
+          "\\$&",
+        ) +
+        '"';
+  return (
+    (x.lowerInclusive ? "[" : "(") +
+    bound(x.lower) +
+    "," +
+    bound(x.upper) +
+    (x.upperInclusive ? "]" : ")")
+  );
+}
+
+export function parsePoint(x: string) {
+  const [a, b] = x.slice(1, -1).split(",");
+  return new Point(+a, +b);
+}
+
+export function parseBox(x: string) {
+  const i = x.indexOf(")") + 1;
+  return new Box(parsePoint(x.slice(0, i)), parsePoint(x.slice(i + 1)));
+}
+
+export function parseCircle(x: string) {
+  const i = x.indexOf(")") + 1;
+  return new Circle(parsePoint(x.slice(1, i)), +x.slice(i + 1, -1));
+}
+
+export function parseCidr(x: string) {
+  const [address, prefix] = x.split("/");
+  return new Cidr(address, +prefix);
+}
+
+export function parseInet(x: string) {
+  const [address, prefix] = x.split("/");
+  return new Inet(address, prefix === undefined ? undefined : +prefix);
+}